@@ -3,9 +3,44 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { RabbitMQUtil } from './utils/rabbitmq.util';
 import { UrlContentController } from './controllers/url-content.controller';
+import { LinkGraphController } from './controllers/link-graph.controller';
+import { CrawlController } from './controllers/crawl.controller';
+import { ScrapeScheduleController } from './controllers/scrape-schedule.controller';
+import { WebhookController } from './controllers/webhook.controller';
+import { JobEventsController } from './controllers/job-events.controller';
+import { BatchController } from './controllers/batch.controller';
+import { DeadLetterController } from './controllers/dead-letter.controller';
+import { SearchController } from './controllers/search.controller';
+import { JobEventsGateway } from './gateways/job-events.gateway';
 import { UrlContentService } from './services/url-content.service';
+import { LinkGraphService } from './services/link-graph.service';
+import { CrawlService } from './services/crawl.service';
+import { ScrapeScheduleService } from './services/scrape-schedule.service';
+import { ChangeDetectionService } from './services/change-detection.service';
+import { WebhookService } from './services/webhook.service';
+import { JobEventsService } from './services/job-events.service';
+import { BatchService } from './services/batch.service';
+import { ArtifactService } from './services/artifact.service';
+import { ContentStoreService } from './services/content-store.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { SearchService } from './services/search.service';
 import { UrlFetchRequestRepository } from './repositories/url-fetch-request.repository';
+import { PageLinkRepository } from './repositories/page-link.repository';
+import { CrawlRepository } from './repositories/crawl.repository';
+import { CrawlPageRepository } from './repositories/crawl-page.repository';
+import { ScrapeScheduleRepository } from './repositories/scrape-schedule.repository';
+import { WebhookDeliveryRepository } from './repositories/webhook-delivery.repository';
+import { BatchRepository } from './repositories/batch.repository';
+import { ArtifactRepository } from './repositories/artifact.repository';
+import { ContentBlobRepository } from './repositories/content-blob.repository';
 import { UrlFetchRequest, UrlFetchRequestSchema } from './schemas/url-fetch-request.schema';
+import { PageLink, PageLinkSchema } from './schemas/page-link.schema';
+import { Crawl, CrawlSchema } from './schemas/crawl.schema';
+import { CrawlPage, CrawlPageSchema } from './schemas/crawl-page.schema';
+import { ScrapeSchedule, ScrapeScheduleSchema } from './schemas/scrape-schedule.schema';
+import { WebhookDelivery, WebhookDeliverySchema } from './schemas/webhook-delivery.schema';
+import { Batch, BatchSchema } from './schemas/batch.schema';
+import { ContentBlob, ContentBlobSchema } from './schemas/content-blob.schema';
 
 @Module({
   imports: [
@@ -20,19 +55,56 @@ import { UrlFetchRequest, UrlFetchRequestSchema } from './schemas/url-fetch-requ
       inject: [ConfigService]
     }),
     MongooseModule.forFeature([
-      { name: UrlFetchRequest.name, schema: UrlFetchRequestSchema }
+      { name: UrlFetchRequest.name, schema: UrlFetchRequestSchema },
+      { name: PageLink.name, schema: PageLinkSchema },
+      { name: Crawl.name, schema: CrawlSchema },
+      { name: CrawlPage.name, schema: CrawlPageSchema },
+      { name: ScrapeSchedule.name, schema: ScrapeScheduleSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+      { name: Batch.name, schema: BatchSchema },
+      { name: ContentBlob.name, schema: ContentBlobSchema }
     ])
   ],
-  controllers: [UrlContentController],
+  controllers: [
+    UrlContentController,
+    LinkGraphController,
+    CrawlController,
+    ScrapeScheduleController,
+    WebhookController,
+    JobEventsController,
+    BatchController,
+    DeadLetterController,
+    SearchController
+  ],
   providers: [
     UrlContentService,
+    LinkGraphService,
+    CrawlService,
+    ScrapeScheduleService,
+    ChangeDetectionService,
+    WebhookService,
+    JobEventsService,
+    JobEventsGateway,
+    BatchService,
+    ArtifactService,
+    ContentStoreService,
+    DeadLetterService,
+    SearchService,
     UrlFetchRequestRepository,
+    PageLinkRepository,
+    CrawlRepository,
+    CrawlPageRepository,
+    ScrapeScheduleRepository,
+    WebhookDeliveryRepository,
+    BatchRepository,
+    ArtifactRepository,
+    ContentBlobRepository,
     {
       provide: RabbitMQUtil,
       useFactory: async (configService: ConfigService) => {
         const client = new RabbitMQUtil();
         const rabbitmqUrl = configService.get<string>('RABBITMQ_URL', 'amqp://localhost:5672');
-        await client.connect(rabbitmqUrl);
+        await client.connect(rabbitmqUrl, Number(configService.get<number>('API_CONSUMER_PREFETCH', 5)));
         return client;
       },
       inject: [ConfigService]
@@ -41,10 +113,16 @@ import { UrlFetchRequest, UrlFetchRequestSchema } from './schemas/url-fetch-requ
 })
 export class AppModule implements OnModuleInit {
   constructor(
-    private readonly urlContentService: UrlContentService
+    private readonly urlContentService: UrlContentService,
+    private readonly scheduleService: ScrapeScheduleService,
+    private readonly webhookService: WebhookService,
+    private readonly jobEventsService: JobEventsService
   ) {}
 
   async onModuleInit(): Promise<void> {
+    await this.jobEventsService.startRelay();
     await this.urlContentService.startConsumers();
+    this.scheduleService.startScheduler();
+    this.webhookService.startDispatcher();
   }
 }
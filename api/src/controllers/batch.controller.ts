@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Param,
+  BadRequestException,
+  NotFoundException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { BatchService } from '../services/batch.service';
+import { UrlContentService } from '../services/url-content.service';
+import { FetchStatus } from '../interfaces/scrape.interface';
+
+@ApiTags('URL Content')
+@Controller('api/url-content/batches')
+export class BatchController {
+  constructor(
+    private readonly batchService: BatchService,
+    private readonly urlContentService: UrlContentService
+  ) {}
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a submission batch with per-status counts, timing and its members' })
+  @ApiParam({ name: 'id', description: 'Batch ID returned by POST /api/url-content' })
+  @ApiQuery({ name: 'status', required: false, enum: FetchStatus, description: 'Filter members by status' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Members per page (default: 50, max: 500)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for member pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Batch found' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  async getBatch(
+    @Param('id') id: string,
+    @Query('status') status?: FetchStatus,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    if (status && !Object.values(FetchStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+
+    const parsedLimit = Math.min(parseInt(limit || '50'), 500);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    const batch = await this.batchService.getBatch(id);
+    if (!batch) {
+      throw new NotFoundException(`Batch not found with ID: ${id}`);
+    }
+
+    const [progress, members] = await Promise.all([
+      this.batchService.getProgress(batch),
+      this.batchService.getMembers(id, status, parsedLimit, parsedOffset)
+    ]);
+
+    return {
+      id,
+      status: batch.status,
+      labels: batch.labels,
+      createdAt: batch.createdAt,
+      finishedAt: batch.finishedAt,
+      ...progress,
+      skipped: batch.skipped,
+      members: {
+        limit: parsedLimit,
+        offset: parsedOffset,
+        items: members.map(member => ({
+          id: (member as any)._id.toString(),
+          url: member.url,
+          status: member.status,
+          httpStatus: member.httpStatus,
+          retryCount: member.retryCount,
+          responseTime: member.responseTime,
+          fetchedAt: member.fetchedAt,
+          errorMessage: member.errorMessage
+        }))
+      }
+    };
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel every pending or in-flight member of a batch' })
+  @ApiParam({ name: 'id', description: 'Batch ID returned by POST /api/url-content' })
+  @ApiResponse({ status: 200, description: 'Unfinished members cancelled' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  async cancelBatch(@Param('id') id: string): Promise<any> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    const batch = await this.batchService.getBatch(id);
+    if (!batch) {
+      throw new NotFoundException(`Batch not found with ID: ${id}`);
+    }
+
+    const cancelled = await this.urlContentService.cancelBatch(id);
+    return { id, cancelled };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Query,
+  Param,
+  Body,
+  BadRequestException,
+  NotFoundException,
+  ConflictException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { CrawlService } from '../services/crawl.service';
+import { CreateCrawlDto } from '../dto/create-crawl.dto';
+import { CrawlPageStatus } from '../interfaces/crawl.interface';
+import { CrawlDocument } from '../schemas/crawl.schema';
+
+@ApiTags('Crawls')
+@Controller('api/crawls')
+export class CrawlController {
+  constructor(private readonly crawlService: CrawlService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Start a recursive crawl from seed URLs' })
+  @ApiResponse({ status: 201, description: 'Crawl created and seed URLs queued' })
+  @ApiResponse({ status: 400, description: 'Invalid crawl options' })
+  async createCrawl(@Body() createCrawlDto: CreateCrawlDto): Promise<any> {
+    const crawl = await this.crawlService.createCrawl(createCrawlDto);
+    return this.toResponse(crawl);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List crawls' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 50, max: 200)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Crawls retrieved' })
+  async getCrawls(
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any[]> {
+    const parsedLimit = Math.min(parseInt(limit || '50'), 200);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    return this.crawlService.getCrawls(parsedLimit, parsedOffset);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get crawl status and progress' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the crawl' })
+  @ApiResponse({ status: 200, description: 'Crawl found' })
+  @ApiResponse({ status: 404, description: 'Crawl not found' })
+  async getCrawl(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+
+    const crawl = await this.crawlService.getCrawl(id);
+    if (!crawl) {
+      throw new NotFoundException(`Crawl not found with ID: ${id}`);
+    }
+
+    return this.toResponse(crawl);
+  }
+
+  @Get(':id/pages')
+  @ApiOperation({ summary: 'List pages of a crawl with their depth and parent URL' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the crawl' })
+  @ApiQuery({ name: 'status', required: false, enum: CrawlPageStatus, description: 'Filter by page status' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 50, max: 500)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Crawl pages retrieved' })
+  async getPages(
+    @Param('id') id: string,
+    @Query('status') status?: CrawlPageStatus,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any> {
+    this.validateId(id);
+
+    if (status && !Object.values(CrawlPageStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+
+    const parsedLimit = Math.min(parseInt(limit || '50'), 500);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    const crawl = await this.crawlService.getCrawl(id);
+    if (!crawl) {
+      throw new NotFoundException(`Crawl not found with ID: ${id}`);
+    }
+
+    const pages = await this.crawlService.getPages(id, status, parsedLimit, parsedOffset);
+
+    return {
+      crawlId: id,
+      pages: pages.map(page => ({
+        url: page.url,
+        depth: page.depth,
+        parentUrl: page.parentUrl,
+        status: page.status,
+        fetchRequestId: page.fetchRequestId?.toString(),
+        discoveredAt: page.createdAt,
+        finishedAt: page.finishedAt
+      }))
+    };
+  }
+
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause a running crawl' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the crawl' })
+  @ApiResponse({ status: 200, description: 'Crawl paused' })
+  @ApiResponse({ status: 409, description: 'Crawl is not running' })
+  async pauseCrawl(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+    const crawl = await this.crawlService.pauseCrawl(id);
+    return this.toResponse(await this.requireTransition(id, crawl, 'running'));
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({ summary: 'Resume a paused crawl' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the crawl' })
+  @ApiResponse({ status: 200, description: 'Crawl resumed' })
+  @ApiResponse({ status: 409, description: 'Crawl is not paused' })
+  async resumeCrawl(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+    const crawl = await this.crawlService.resumeCrawl(id);
+    return this.toResponse(await this.requireTransition(id, crawl, 'paused'));
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a running or paused crawl' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the crawl' })
+  @ApiResponse({ status: 200, description: 'Crawl cancelled' })
+  @ApiResponse({ status: 409, description: 'Crawl already finished' })
+  async cancelCrawl(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+    const crawl = await this.crawlService.cancelCrawl(id);
+    return this.toResponse(await this.requireTransition(id, crawl, 'running or paused'));
+  }
+
+  private validateId(id: string): void {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+  }
+
+  /**
+   * Distinguish "no such crawl" from "crawl is in the wrong state" after a failed transition
+   */
+  private async requireTransition(id: string, crawl: CrawlDocument | null, expected: string): Promise<CrawlDocument> {
+    if (crawl) {
+      return crawl;
+    }
+
+    const existing = await this.crawlService.getCrawl(id);
+    if (!existing) {
+      throw new NotFoundException(`Crawl not found with ID: ${id}`);
+    }
+
+    throw new ConflictException(`Crawl is ${existing.status}, expected ${expected}`);
+  }
+
+  private async toResponse(crawl: CrawlDocument): Promise<any> {
+    const id = crawl._id.toString();
+
+    return {
+      id,
+      seedUrls: crawl.seedUrls,
+      status: crawl.status,
+      maxDepth: crawl.maxDepth,
+      maxPages: crawl.maxPages,
+      scope: crawl.scope,
+      includePatterns: crawl.includePatterns,
+      excludePatterns: crawl.excludePatterns,
+      progress: await this.crawlService.getProgress(id),
+      createdAt: crawl.createdAt,
+      finishedAt: crawl.finishedAt
+    };
+  }
+}
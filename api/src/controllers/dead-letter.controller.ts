@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Query,
+  Param,
+  BadRequestException,
+  NotFoundException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { DeadLetterService } from '../services/dead-letter.service';
+import { QueueNames } from '../interfaces/scrape.interface';
+import {
+  DeadLetterMessage,
+  DeadLetterQueueStats,
+  DeadLetterReplayResult
+} from '../interfaces/dead-letter.interface';
+
+@ApiTags('Dead Letters')
+@Controller('api/dead-letters')
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Count dead-lettered messages per queue (admin endpoint)' })
+  @ApiResponse({ status: 200, description: 'Dead letter queue sizes' })
+  async getStats(): Promise<DeadLetterQueueStats[]> {
+    return this.deadLetterService.getStats();
+  }
+
+  @Get(':queue')
+  @ApiOperation({ summary: 'List dead-lettered messages of a queue with the reason they died (admin endpoint)' })
+  @ApiParam({ name: 'queue', enum: QueueNames, description: 'Original queue, e.g. scrape.requests' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Messages from the head of the queue (default: 50, max: 200)' })
+  @ApiQuery({ name: 'payload', required: false, description: 'Include message payloads (default: false)' })
+  @ApiResponse({ status: 200, description: 'Dead letters retrieved; they stay in the queue' })
+  async list(
+    @Param('queue') queue: string,
+    @Query('limit') limit?: string,
+    @Query('payload') payload?: string
+  ): Promise<DeadLetterMessage[]> {
+    return this.deadLetterService.list(
+      this.validateQueue(queue),
+      this.parseLimit(limit, 50, 200),
+      payload === 'true'
+    );
+  }
+
+  @Post(':queue/replay')
+  @ApiOperation({ summary: 'Publish dead-lettered messages back to their queue (admin endpoint)' })
+  @ApiParam({ name: 'queue', enum: QueueNames, description: 'Original queue, e.g. scrape.requests' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Messages to replay from the head of the queue (default: 100, max: 1000)' })
+  @ApiResponse({ status: 200, description: 'Messages replayed' })
+  async replay(
+    @Param('queue') queue: string,
+    @Query('limit') limit?: string
+  ): Promise<DeadLetterReplayResult> {
+    return this.deadLetterService.replay(this.validateQueue(queue), this.parseLimit(limit, 100, 1000));
+  }
+
+  @Post(':queue/:messageId/replay')
+  @ApiOperation({ summary: 'Publish one dead-lettered message back to its queue (admin endpoint)' })
+  @ApiParam({ name: 'queue', enum: QueueNames, description: 'Original queue, e.g. scrape.requests' })
+  @ApiParam({ name: 'messageId', description: 'messageId from the dead letter listing' })
+  @ApiResponse({ status: 200, description: 'Message replayed' })
+  @ApiResponse({ status: 404, description: 'Message not found among the first 1000 dead letters' })
+  async replayOne(
+    @Param('queue') queue: string,
+    @Param('messageId') messageId: string
+  ): Promise<DeadLetterMessage> {
+    const message = await this.deadLetterService.replayOne(this.validateQueue(queue), messageId);
+    if (!message) {
+      throw new NotFoundException(`Dead letter not found with ID: ${messageId}`);
+    }
+    return message;
+  }
+
+  @Delete(':queue')
+  @ApiOperation({ summary: 'Delete every dead-lettered message of a queue (admin endpoint)' })
+  @ApiParam({ name: 'queue', enum: QueueNames, description: 'Original queue, e.g. scrape.requests' })
+  @ApiResponse({ status: 200, description: 'Dead letters purged' })
+  async purge(@Param('queue') queue: string): Promise<{ purged: number }> {
+    return { purged: await this.deadLetterService.purge(this.validateQueue(queue)) };
+  }
+
+  private validateQueue(queue: string): QueueNames {
+    if (!Object.values(QueueNames).includes(queue as QueueNames)) {
+      throw new BadRequestException(`Unknown queue: ${queue}. Expected one of ${Object.values(QueueNames).join(', ')}`);
+    }
+    return queue as QueueNames;
+  }
+
+  private parseLimit(limit: string | undefined, defaultLimit: number, maxLimit: number): number {
+    const parsed = Math.min(parseInt(limit || `${defaultLimit}`), maxLimit);
+    if (isNaN(parsed) || parsed < 1) {
+      throw new BadRequestException('Invalid limit parameter');
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Sse, Query, MessageEvent, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { Observable, defer, from, interval, map, merge, mergeMap } from 'rxjs';
+import { JobEventsService } from '../services/job-events.service';
+
+@ApiTags('Job Events')
+@Controller('api/events')
+export class JobEventsController {
+  // Keeps idle connections open through proxies
+  private static readonly HEARTBEAT_MS = 25000;
+
+  constructor(private readonly jobEventsService: JobEventsService) {}
+
+  @Sse()
+  @ApiOperation({ summary: 'Stream status transitions of fetch requests (Server-Sent Events)' })
+  @ApiQuery({ name: 'ids', required: false, description: 'Comma-separated request IDs (e.g. the queued IDs of a submission)' })
+  @ApiQuery({ name: 'url', required: false, description: 'URL to follow, repeatable; matches every request for that URL' })
+  @ApiResponse({ status: 200, description: 'text/event-stream of "status" events' })
+  @ApiResponse({ status: 400, description: 'No request ID or URL to subscribe to' })
+  streamEvents(
+    @Query('ids') ids?: string,
+    @Query('url') url?: string | string[]
+  ): Observable<MessageEvent> {
+    const filter = JobEventsService.buildFilter(
+      ids ? ids.split(',') : [],
+      Array.isArray(url) ? url : url ? [url] : []
+    );
+
+    if (!filter.ids.length && !filter.urls.length) {
+      throw new BadRequestException('Subscribe to at least one valid request ID or URL');
+    }
+
+    const live = this.jobEventsService.stream(filter);
+    const snapshot = defer(() => this.jobEventsService.snapshot(filter.ids)).pipe(mergeMap(events => from(events)));
+
+    return merge(
+      merge(live, snapshot).pipe(map(event => ({ type: 'status', data: event }))),
+      interval(JobEventsController.HEARTBEAT_MS).pipe(map(() => ({ type: 'heartbeat', data: {} })))
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Query,
+  BadRequestException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { LinkGraphService } from '../services/link-graph.service';
+
+@ApiTags('Link Graph')
+@Controller('api/links')
+export class LinkGraphController {
+  constructor(private readonly linkGraphService: LinkGraphService) {}
+
+  @Get('from')
+  @ApiOperation({ summary: 'Get outbound links found on a URL (site map)' })
+  @ApiQuery({ name: 'url', required: true, description: 'The page URL' })
+  @ApiQuery({ name: 'internal', required: false, description: 'Filter by internal (true) or external (false) links' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 100, max: 1000)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Outbound links of the latest successful scrape' })
+  async getLinksFrom(
+    @Query('url') url: string,
+    @Query('internal') internal?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any> {
+    if (!url) {
+      throw new BadRequestException('URL parameter is required');
+    }
+
+    if (internal !== undefined && !['true', 'false'].includes(internal)) {
+      throw new BadRequestException('internal must be true or false');
+    }
+
+    const { parsedLimit, parsedOffset } = this.parsePagination(limit, offset);
+    const isInternal = internal === undefined ? undefined : internal === 'true';
+    const { total, links } = await this.linkGraphService.getOutboundLinks(url, isInternal, parsedLimit, parsedOffset);
+
+    return {
+      url,
+      total,
+      links: links.map(link => ({
+        href: link.href,
+        anchorText: link.anchorText,
+        rel: link.rel,
+        isInternal: link.isInternal,
+        fetchRequestId: link.fetchRequestId?.toString(),
+        discoveredAt: link.discoveredAt
+      }))
+    };
+  }
+
+  @Get('to')
+  @ApiOperation({ summary: 'Get pages linking to a URL (backlinks)' })
+  @ApiQuery({ name: 'url', required: true, description: 'The target URL' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 100, max: 1000)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Pages whose latest scrape links to the URL' })
+  async getLinksTo(
+    @Query('url') url: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any> {
+    if (!url) {
+      throw new BadRequestException('URL parameter is required');
+    }
+
+    const { parsedLimit, parsedOffset } = this.parsePagination(limit, offset);
+    const { total, links } = await this.linkGraphService.getInboundLinks(url, parsedLimit, parsedOffset);
+
+    return {
+      url,
+      total,
+      linkedFrom: links.map(link => ({
+        sourceUrl: link.sourceUrl,
+        href: link.href,
+        anchorText: link.anchorText,
+        rel: link.rel,
+        isInternal: link.isInternal,
+        fetchRequestId: link.fetchRequestId?.toString(),
+        discoveredAt: link.discoveredAt
+      }))
+    };
+  }
+
+  private parsePagination(limit?: string, offset?: string): { parsedLimit: number; parsedOffset: number } {
+    const parsedLimit = Math.min(parseInt(limit || '100'), 1000);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    return { parsedLimit, parsedOffset };
+  }
+}
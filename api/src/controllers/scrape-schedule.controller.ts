@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Query,
+  Param,
+  Body,
+  HttpCode,
+  BadRequestException,
+  NotFoundException,
+  ConflictException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { ScrapeScheduleService } from '../services/scrape-schedule.service';
+import { CreateScheduleDto, UpdateScheduleDto } from '../dto/scrape-schedule.dto';
+import { ScheduleStatus } from '../interfaces/schedule.interface';
+import { ScrapeScheduleDocument } from '../schemas/scrape-schedule.schema';
+
+@ApiTags('Schedules')
+@Controller('api/schedules')
+export class ScrapeScheduleController {
+  constructor(private readonly scheduleService: ScrapeScheduleService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a recurring scrape schedule (cron expression or fixed interval)' })
+  @ApiResponse({ status: 201, description: 'Schedule created' })
+  @ApiResponse({ status: 400, description: 'Invalid schedule timing' })
+  async createSchedule(@Body() createScheduleDto: CreateScheduleDto): Promise<any> {
+    const schedule = await this.scheduleService.createSchedule(createScheduleDto);
+    return this.toResponse(schedule);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List scrape schedules' })
+  @ApiQuery({ name: 'status', required: false, enum: ScheduleStatus, description: 'Filter by schedule status' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 50, max: 200)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Schedules retrieved' })
+  async getSchedules(
+    @Query('status') status?: ScheduleStatus,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any[]> {
+    if (status && !Object.values(ScheduleStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+
+    const parsedLimit = Math.min(parseInt(limit || '50'), 200);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    const schedules = await this.scheduleService.getSchedules(status, parsedLimit, parsedOffset);
+    return schedules.map(schedule => this.toResponse(schedule));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a schedule with its next run, last run and last status' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule found' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async getSchedule(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+
+    const schedule = await this.scheduleService.getSchedule(id);
+    if (!schedule) {
+      throw new NotFoundException(`Schedule not found with ID: ${id}`);
+    }
+
+    return this.toResponse(schedule);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a schedule name, timing or ignored selectors' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule updated' })
+  @ApiResponse({ status: 400, description: 'Invalid schedule timing' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async updateSchedule(@Param('id') id: string, @Body() updateScheduleDto: UpdateScheduleDto): Promise<any> {
+    this.validateId(id);
+
+    const schedule = await this.scheduleService.updateSchedule(id, updateScheduleDto);
+    if (!schedule) {
+      throw new NotFoundException(`Schedule not found with ID: ${id}`);
+    }
+
+    return this.toResponse(schedule);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a schedule (past scrapes are kept)' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the schedule' })
+  @ApiResponse({ status: 204, description: 'Schedule deleted' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async deleteSchedule(@Param('id') id: string): Promise<void> {
+    this.validateId(id);
+
+    if (!(await this.scheduleService.deleteSchedule(id))) {
+      throw new NotFoundException(`Schedule not found with ID: ${id}`);
+    }
+  }
+
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause an active schedule' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule paused' })
+  @ApiResponse({ status: 409, description: 'Schedule is not active' })
+  async pauseSchedule(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+    const schedule = await this.scheduleService.pauseSchedule(id);
+    return this.toResponse(await this.requireTransition(id, schedule, ScheduleStatus.ACTIVE));
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({ summary: 'Resume a paused schedule' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the schedule' })
+  @ApiResponse({ status: 200, description: 'Schedule resumed' })
+  @ApiResponse({ status: 409, description: 'Schedule is not paused' })
+  async resumeSchedule(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+    const schedule = await this.scheduleService.resumeSchedule(id);
+    return this.toResponse(await this.requireTransition(id, schedule, ScheduleStatus.PAUSED));
+  }
+
+  private validateId(id: string): void {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+  }
+
+  private async requireTransition(
+    id: string,
+    schedule: ScrapeScheduleDocument | null,
+    expected: ScheduleStatus
+  ): Promise<ScrapeScheduleDocument> {
+    if (schedule) {
+      return schedule;
+    }
+
+    const existing = await this.scheduleService.getSchedule(id);
+    if (!existing) {
+      throw new NotFoundException(`Schedule not found with ID: ${id}`);
+    }
+
+    throw new ConflictException(`Schedule is ${existing.status}, expected ${expected}`);
+  }
+
+  private toResponse(schedule: ScrapeScheduleDocument): any {
+    return {
+      id: schedule._id.toString(),
+      url: schedule.url,
+      name: schedule.name,
+      cronExpression: schedule.cronExpression,
+      intervalMinutes: schedule.intervalMinutes,
+      timezone: schedule.timezone,
+      ignoreSelectors: schedule.ignoreSelectors,
+      status: schedule.status,
+      nextRunAt: schedule.status === ScheduleStatus.ACTIVE ? schedule.nextRunAt : null,
+      lastRunAt: schedule.lastRunAt,
+      lastStatus: schedule.lastStatus,
+      lastFetchRequestId: schedule.lastFetchRequestId?.toString(),
+      runCount: schedule.runCount,
+      createdAt: schedule.createdAt
+    };
+  }
+}
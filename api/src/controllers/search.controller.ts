@@ -0,0 +1,33 @@
+import { Controller, Get, Post, Query, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { SearchService } from '../services/search.service';
+import { SearchDto } from '../dto/search.dto';
+import { SearchResults } from '../interfaces/search.interface';
+
+@ApiTags('Search')
+@Controller('api/search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Full-text search over the latest successful scrape of each URL' })
+  @ApiResponse({ status: 200, description: 'Hits by relevance with highlighted snippets' })
+  @ApiResponse({ status: 400, description: 'Missing query or invalid filters' })
+  async search(@Query() query: SearchDto): Promise<SearchResults> {
+    const { q, limit, offset, ...filter } = query;
+    return this.searchService.search(q.trim(), filter, limit || 20, offset || 0);
+  }
+
+  @Post('reindex')
+  @ApiOperation({ summary: 'Add URLs scraped before search existed to the index (admin endpoint)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'URLs to index in this run (default: 1000, max: 10000)' })
+  @ApiResponse({ status: 200, description: 'Batch indexed; repeat until indexed is 0' })
+  async reindex(@Query('limit') limit?: string): Promise<{ indexed: number }> {
+    const parsedLimit = Math.min(parseInt(limit || '1000'), 10000);
+    if (isNaN(parsedLimit) || parsedLimit < 1) {
+      throw new BadRequestException('Invalid limit parameter');
+    }
+
+    return { indexed: await this.searchService.reindex(parsedLimit) };
+  }
+}
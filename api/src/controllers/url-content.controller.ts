@@ -2,54 +2,77 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Query,
   Param,
   Body,
+  Header,
+  Res,
   HttpStatus,
   HttpException,
   BadRequestException,
-  NotFoundException
+  NotFoundException,
+  ConflictException,
+  StreamableFile
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { Response } from 'express';
 import { UrlContentService } from '../services/url-content.service';
-import { SubmitUrlsDto, SubmitUrlsResponseDto } from '../dto/submit-urls.dto';
-import { FetchStatus } from '../interfaces/scrape.interface';
+import { ChangeDetectionService, DiffField } from '../services/change-detection.service';
+import { ArtifactService } from '../services/artifact.service';
+import { ContentMigrationResult } from '../services/content-store.service';
+import { SubmitUrlsDto, SubmitUrlItemDto, SubmitUrlsResponseDto } from '../dto/submit-urls.dto';
+import { ListResultsDto } from '../dto/list-results.dto';
+import { FetchStatus, ArtifactKind, ScrapeQueueStats } from '../interfaces/scrape.interface';
 import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+import { ResultCursor } from '../utils/result-cursor.util';
+import { ResultPage, ResultSort, ResultSortField, SortOrder } from '../interfaces/result-query.interface';
 
 @ApiTags('URL Content')
 @Controller('api/url-content')
 export class UrlContentController {
-  constructor(private readonly urlContentService: UrlContentService) {}
+  constructor(
+    private readonly urlContentService: UrlContentService,
+    private readonly changeDetectionService: ChangeDetectionService,
+    private readonly artifactService: ArtifactService
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Submit URLs for scraping' })
   @ApiResponse({ status: 200, description: 'URLs submitted successfully', type: SubmitUrlsResponseDto })
   @ApiResponse({ status: 400, description: 'Invalid URL format or empty array' })
   async submitUrls(@Body() submitUrlsDto: SubmitUrlsDto): Promise<SubmitUrlsResponseDto> {
-    if (!submitUrlsDto.urls || submitUrlsDto.urls.length === 0) {
+    const { urls = [], items = [], ...options } = submitUrlsDto;
+    const targets: SubmitUrlItemDto[] = [...urls.map(url => ({ url })), ...items];
+
+    if (targets.length === 0) {
       throw new BadRequestException('URLs array cannot be empty');
     }
+    if (targets.length > 100) {
+      throw new BadRequestException('At most 100 URLs can be submitted at once');
+    }
 
-    return this.urlContentService.submitUrls(submitUrlsDto.urls);
+    return this.urlContentService.submitUrls(targets, options);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all results (debug)' })
-  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 50, max: 200)' })
-  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
-  @ApiResponse({ status: 200, description: 'All results retrieved', type: [UrlFetchRequest] })
-  async getAllResults(
-    @Query('limit') limit?: string,
-    @Query('offset') offset?: string
-  ): Promise<UrlFetchRequest[]> {
-    const parsedLimit = Math.min(parseInt(limit || '50'), 200);
-    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+  @ApiOperation({ summary: 'List results with filters, sorting and cursor pagination' })
+  @ApiResponse({ status: 200, description: 'One page of results and the cursor of the next one' })
+  @ApiResponse({ status: 400, description: 'Invalid filter, sort or cursor' })
+  async listResults(@Query() query: ListResultsDto): Promise<ResultPage<UrlFetchRequest>> {
+    const { fields, sort, order, limit, cursor, ...filter } = query;
+    const resultSort: ResultSort = {
+      field: sort || ResultSortField.CREATED_AT,
+      order: order || SortOrder.DESC
+    };
 
-    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
-      throw new BadRequestException('Invalid limit or offset parameters');
+    const after = cursor ? ResultCursor.decode(cursor, resultSort) : undefined;
+    if (after === null) {
+      throw new BadRequestException('Invalid cursor, or it was issued for a different sort');
     }
 
-    return this.urlContentService.getAllResults({}, parsedLimit, parsedOffset);
+    return this.urlContentService.listResults(filter, resultSort, limit || 50, after, fields);
   }
 
   @Get('by-url')
@@ -95,6 +118,66 @@ export class UrlContentController {
     return result;
   }
 
+  @Get('content')
+  @ApiOperation({ summary: 'Content of a URL no older than maxAge, scraping it on demand' })
+  @ApiQuery({ name: 'url', required: true, description: 'The URL to read' })
+  @ApiQuery({ name: 'maxAge', required: false, description: 'Oldest acceptable scrape in minutes (default: SCRAPE_INTERVAL_MINUTES, 0 always scrapes)' })
+  @ApiQuery({ name: 'wait', required: false, description: 'Seconds to wait for a new scrape (default: 0, max: 60)' })
+  @ApiResponse({ status: 200, description: 'Fresh enough result, cached or just scraped', type: UrlFetchRequest })
+  @ApiResponse({ status: 202, description: 'Scrape queued or running; poll GET /api/url-content/:requestId' })
+  @ApiResponse({ status: 502, description: 'The scrape failed or was cancelled' })
+  async getFreshContent(
+    @Query('url') url: string,
+    @Query('maxAge') maxAge: string | undefined,
+    @Query('wait') wait: string | undefined,
+    @Res({ passthrough: true }) res: Response
+  ): Promise<any> {
+    if (!url) {
+      throw new BadRequestException('URL parameter is required');
+    }
+
+    const parsedMaxAge = maxAge === undefined ? undefined : Number(maxAge);
+    const parsedWait = Math.min(Number(wait || '0'), 60);
+
+    if ((parsedMaxAge !== undefined && !(parsedMaxAge >= 0)) || !(parsedWait >= 0)) {
+      throw new BadRequestException('Invalid maxAge or wait parameters');
+    }
+
+    const outcome = await this.urlContentService.getFreshContent(url, parsedMaxAge, parsedWait);
+
+    if (!outcome.record) {
+      res.status(HttpStatus.ACCEPTED);
+      return {
+        requestId: outcome.requestId,
+        url,
+        status: outcome.status,
+        statusUrl: `/api/url-content/${outcome.requestId}`
+      };
+    }
+
+    if (outcome.record.status !== FetchStatus.SUCCESS) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_GATEWAY,
+          message: outcome.record.errorMessage || `Scrape ${outcome.record.status.toLowerCase()}`,
+          requestId: outcome.requestId,
+          status: outcome.record.status
+        },
+        HttpStatus.BAD_GATEWAY
+      );
+    }
+
+    res.setHeader('X-Content-Cache', outcome.cached ? 'HIT' : 'MISS');
+    return outcome.record;
+  }
+
+  @Get('queue')
+  @ApiOperation({ summary: 'Scrape requests waiting at each priority level (admin endpoint)' })
+  @ApiResponse({ status: 200, description: 'Queue depth and pending requests per priority' })
+  async getQueueStats(): Promise<ScrapeQueueStats> {
+    return this.urlContentService.getQueueStats();
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get specific scrape result by ID' })
   @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
@@ -113,6 +196,155 @@ export class UrlContentController {
     return result;
   }
 
+  @Delete(':id')
+  @ApiOperation({ summary: 'Cancel a pending or in-flight scrape' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape request' })
+  @ApiResponse({ status: 200, description: 'Scrape cancelled' })
+  @ApiResponse({ status: 404, description: 'Scrape request not found' })
+  @ApiResponse({ status: 409, description: 'Scrape already finished' })
+  async cancelRequest(@Param('id') id: string): Promise<any> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    const cancelled = await this.urlContentService.cancelRequest(id);
+    if (!cancelled) {
+      const existing = await this.urlContentService.getResult(id);
+      if (!existing) {
+        throw new NotFoundException(`Scrape request not found with ID: ${id}`);
+      }
+      throw new ConflictException(`Scrape request is ${existing.status}, expected pending or processing`);
+    }
+
+    return {
+      id,
+      url: cancelled.url,
+      status: cancelled.status,
+      cancelledAt: cancelled.cancelledAt
+    };
+  }
+
+  @Get(':id/text')
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  @ApiOperation({ summary: 'Get extracted main-content text of a scrape result' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiResponse({ status: 200, description: 'Readable text of the page' })
+  @ApiResponse({ status: 404, description: 'Scrape result or extracted text not found' })
+  async getTextContent(@Param('id') id: string): Promise<string> {
+    const result = await this.findResultOrFail(id);
+    if (!result.textContent) {
+      throw new NotFoundException(`No extracted text available for ID: ${id}`);
+    }
+
+    return result.textContent;
+  }
+
+  @Get(':id/markdown')
+  @Header('Content-Type', 'text/markdown; charset=utf-8')
+  @ApiOperation({ summary: 'Get Markdown rendering of the main content of a scrape result' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiResponse({ status: 200, description: 'Markdown rendering of the page' })
+  @ApiResponse({ status: 404, description: 'Scrape result or Markdown not found' })
+  async getMarkdown(@Param('id') id: string): Promise<string> {
+    const result = await this.findResultOrFail(id);
+    if (!result.markdown) {
+      throw new NotFoundException(`No Markdown available for ID: ${id}`);
+    }
+
+    return result.markdown;
+  }
+
+  @Get(':id/raw')
+  // Downloaded, and sandboxed if opened anyway: scraped bytes must never run on the API's origin
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Content-Security-Policy', 'sandbox')
+  @ApiOperation({ summary: 'Download the response body as served, with its original Content-Type' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiResponse({ status: 200, description: 'Original bytes for non-HTML responses; page markup for HTML' })
+  @ApiResponse({ status: 404, description: 'Scrape result or body not found' })
+  async getRawContent(@Param('id') id: string): Promise<StreamableFile> {
+    const result = await this.findResultOrFail(id);
+
+    const raw = await this.urlContentService.getRawContent(result);
+    if (!raw) {
+      throw new NotFoundException(`No content available for ID: ${id}`);
+    }
+
+    return new StreamableFile(raw.body, {
+      type: raw.contentType,
+      length: raw.body.length,
+      disposition: `attachment; filename="${this.downloadName(result, id)}"`
+    });
+  }
+
+  @Get(':id/screenshot')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Content-Security-Policy', 'sandbox')
+  @ApiOperation({ summary: 'Download the screenshot captured with a scrape result' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiResponse({ status: 200, description: 'PNG or JPEG image of the page' })
+  @ApiResponse({ status: 404, description: 'Scrape result or screenshot not found' })
+  async getScreenshot(@Param('id') id: string): Promise<StreamableFile> {
+    return this.downloadArtifact(id, ArtifactKind.SCREENSHOT);
+  }
+
+  @Get(':id/pdf')
+  @Header('X-Content-Type-Options', 'nosniff')
+  @Header('Content-Security-Policy', 'sandbox')
+  @ApiOperation({ summary: 'Download the PDF rendering captured with a scrape result' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiResponse({ status: 200, description: 'PDF rendering of the page' })
+  @ApiResponse({ status: 404, description: 'Scrape result or PDF not found' })
+  async getPdf(@Param('id') id: string): Promise<StreamableFile> {
+    return this.downloadArtifact(id, ArtifactKind.PDF);
+  }
+
+  @Get(':id/diff')
+  @ApiOperation({ summary: 'Get a unified text diff between two scrapes of the same URL' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the scrape result' })
+  @ApiQuery({ name: 'against', required: false, description: 'ID of another scrape of the same URL (default: the previous success)' })
+  @ApiQuery({ name: 'field', required: false, enum: ['text', 'markdown', 'html'], description: 'Content to compare (default: text)' })
+  @ApiResponse({ status: 200, description: 'Diff between the older and the newer scrape' })
+  @ApiResponse({ status: 400, description: 'Scrapes belong to different URLs' })
+  @ApiResponse({ status: 404, description: 'Scrape result or previous scrape not found' })
+  @ApiResponse({ status: 422, description: 'Versions differ too much to diff' })
+  async getDiff(
+    @Param('id') id: string,
+    @Query('against') against?: string,
+    @Query('field') field: DiffField = 'text'
+  ): Promise<any> {
+    if (!['text', 'markdown', 'html'].includes(field)) {
+      throw new BadRequestException(`Invalid field: ${field}`);
+    }
+
+    const result = await this.findResultOrFail(id);
+
+    const otherId = against || result.previousRequestId?.toString();
+    if (!otherId) {
+      throw new NotFoundException(`No previous successful scrape to compare with for ID: ${id}`);
+    }
+    const other = await this.findResultOrFail(otherId);
+
+    if (result.url !== other.url && !UrlNormalizer.areEquivalent(result.url, other.url)) {
+      throw new BadRequestException(`Scrapes belong to different URLs: ${result.url} and ${other.url}`);
+    }
+
+    const diff = this.changeDetectionService.diff(result, other, field);
+    if (!diff) {
+      throw new HttpException('Versions differ too much to produce a diff', HttpStatus.UNPROCESSABLE_ENTITY);
+    }
+
+    const [older, newer] = this.changeDetectionService.byFetchTime(result, other);
+
+    return {
+      url: result.url,
+      field,
+      from: { id: (older as any)._id.toString(), fetchedAt: older.fetchedAt },
+      to: { id: (newer as any)._id.toString(), fetchedAt: newer.fetchedAt },
+      ...diff
+    };
+  }
+
   @Post('fix-inconsistencies')
   @ApiOperation({ summary: 'Fix data inconsistencies (admin endpoint)' })
   @ApiResponse({ status: 200, description: 'Data inconsistencies fixed' })
@@ -123,4 +355,57 @@ export class UrlContentController {
       message: `Fixed ${fixed} data inconsistencies`
     };
   }
+
+  @Post('migrate-content')
+  @ApiOperation({ summary: 'Move inline page content into the content store (admin endpoint)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Records to migrate in this run (default: 500, max: 5000)' })
+  @ApiResponse({ status: 200, description: 'Migration batch finished; repeat until remaining is 0' })
+  async migrateContent(@Query('limit') limit?: string): Promise<ContentMigrationResult> {
+    const parsedLimit = Math.min(parseInt(limit || '500'), 5000);
+    if (isNaN(parsedLimit) || parsedLimit < 1) {
+      throw new BadRequestException('Invalid limit parameter');
+    }
+
+    return this.urlContentService.migrateInlineContent(parsedLimit);
+  }
+
+  private async downloadArtifact(id: string, kind: ArtifactKind): Promise<StreamableFile> {
+    const result = await this.findResultOrFail(id);
+
+    const download = await this.artifactService.open(result, kind);
+    if (!download) {
+      throw new NotFoundException(`No ${kind} available for ID: ${id}`);
+    }
+
+    const extension = download.ref.contentType.split('/')[1];
+    return new StreamableFile(download.stream, {
+      type: download.ref.contentType,
+      length: download.ref.size,
+      disposition: `attachment; filename="${id}-${kind}.${extension}"`
+    });
+  }
+
+  // Last path segment of the scraped URL, reduced to header-safe ASCII
+  private downloadName(result: UrlFetchRequest, id: string): string {
+    let name = '';
+    try {
+      name = decodeURIComponent(new URL(result.finalUrl || result.url).pathname.split('/').pop() || '');
+    } catch {
+      // Malformed URL or escape sequence: fall back to the ID
+    }
+    return name.replace(/[^\x20-\x7e]|["\\]/g, '_') || id;
+  }
+
+  private async findResultOrFail(id: string): Promise<UrlFetchRequest> {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    const result = await this.urlContentService.getResult(id);
+    if (!result) {
+      throw new NotFoundException(`Scrape result not found with ID: ${id}`);
+    }
+
+    return result;
+  }
 }
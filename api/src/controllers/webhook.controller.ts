@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Query,
+  Param,
+  BadRequestException,
+  NotFoundException
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookDeliveryStatus } from '../interfaces/webhook.interface';
+import { WebhookDeliveryDocument } from '../schemas/webhook-delivery.schema';
+
+@ApiTags('Webhooks')
+@Controller('api/webhooks')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'List callback deliveries with their attempt log (admin endpoint)' })
+  @ApiQuery({ name: 'status', required: false, enum: WebhookDeliveryStatus, description: 'Filter by delivery status' })
+  @ApiQuery({ name: 'requestId', required: false, description: 'Filter by fetch request ID' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit results (default: 50, max: 200)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Offset for pagination (default: 0)' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved' })
+  async getDeliveries(
+    @Query('status') status?: WebhookDeliveryStatus,
+    @Query('requestId') requestId?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string
+  ): Promise<any[]> {
+    if (status && !Object.values(WebhookDeliveryStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    if (requestId) {
+      this.validateId(requestId);
+    }
+
+    const parsedLimit = Math.min(parseInt(limit || '50'), 200);
+    const parsedOffset = Math.max(parseInt(offset || '0'), 0);
+
+    if (isNaN(parsedLimit) || isNaN(parsedOffset)) {
+      throw new BadRequestException('Invalid limit or offset parameters');
+    }
+
+    const deliveries = await this.webhookService.getDeliveries(
+      { status, fetchRequestId: requestId },
+      parsedLimit,
+      parsedOffset
+    );
+    return deliveries.map(delivery => this.toResponse(delivery));
+  }
+
+  @Get('deliveries/:id')
+  @ApiOperation({ summary: 'Get a callback delivery with its payload and attempt log (admin endpoint)' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the delivery' })
+  @ApiResponse({ status: 200, description: 'Delivery found' })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  async getDelivery(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+
+    const delivery = await this.webhookService.getDelivery(id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery not found with ID: ${id}`);
+    }
+
+    return { ...this.toResponse(delivery), payload: delivery.payload };
+  }
+
+  @Post('deliveries/:id/replay')
+  @ApiOperation({ summary: 'Send a callback delivery again with a fresh retry budget (admin endpoint)' })
+  @ApiParam({ name: 'id', description: 'MongoDB ObjectId of the delivery' })
+  @ApiResponse({ status: 200, description: 'Delivery queued for sending' })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  async replayDelivery(@Param('id') id: string): Promise<any> {
+    this.validateId(id);
+
+    const delivery = await this.webhookService.replay(id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery not found with ID: ${id}`);
+    }
+
+    return this.toResponse(delivery);
+  }
+
+  private validateId(id: string): void {
+    if (!id.match(/^[0-9a-fA-F]{24}$/)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+  }
+
+  private toResponse(delivery: WebhookDeliveryDocument): any {
+    return {
+      id: delivery._id.toString(),
+      fetchRequestId: delivery.fetchRequestId.toString(),
+      callbackUrl: delivery.callbackUrl,
+      event: delivery.event,
+      status: delivery.status,
+      attemptCount: delivery.attemptCount,
+      nextAttemptAt: delivery.nextAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      lastError: delivery.lastError,
+      attempts: delivery.attempts,
+      createdAt: delivery.createdAt
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  IsArray,
+  IsUrl,
+  IsInt,
+  IsEnum,
+  IsString,
+  IsOptional,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  Min,
+  Max
+} from 'class-validator';
+import { CrawlScope } from '../interfaces/crawl.interface';
+
+export class CreateCrawlDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUrl({}, { each: true })
+  seedUrls: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  maxDepth?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  maxPages?: number;
+
+  @IsOptional()
+  @IsEnum(CrawlScope)
+  scope?: CrawlScope;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  includePatterns?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  excludePatterns?: string[];
+}
@@ -0,0 +1,123 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { FetchStatus } from '../interfaces/scrape.interface';
+import { ResultSortField, SortOrder } from '../interfaces/result-query.interface';
+import { UrlFetchRequestSchema } from '../schemas/url-fetch-request.schema';
+
+// Every stored field but the callback secret
+const SELECTABLE_FIELDS = Object.keys(UrlFetchRequestSchema.paths).filter(path => !['callbackSecret', '__v'].includes(path));
+
+const commaSeparated = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+
+const booleanFlag = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+/**
+ * Query parameters of GET /api/url-content
+ */
+export class ListResultsDto {
+  // One or more statuses, comma separated
+  @IsOptional()
+  @Transform(commaSeparated)
+  @IsArray()
+  @IsEnum(FetchStatus, { each: true })
+  status?: FetchStatus[];
+
+  // Host without www, e.g. blog.example.com
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  host?: string;
+
+  // Registrable domain covering all its hosts, e.g. example.com
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  domain?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(100)
+  @Max(599)
+  httpStatusMin?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(100)
+  @Max(599)
+  httpStatusMax?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fetchedAfter?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fetchedBefore?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdAfter?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdBefore?: Date;
+
+  // Matched as a prefix: "text/html", "application/"
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  contentType?: string;
+
+  @IsOptional()
+  @Transform(booleanFlag)
+  @IsBoolean()
+  hasContent?: boolean;
+
+  // Fields to return, comma separated; by default everything but content, textContent and markdown
+  @IsOptional()
+  @Transform(commaSeparated)
+  @IsArray()
+  @IsIn(SELECTABLE_FIELDS, { each: true })
+  fields?: string[];
+
+  @IsOptional()
+  @IsEnum(ResultSortField)
+  sort?: ResultSortField;
+
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order?: SortOrder;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  // nextCursor of the previous page
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  cursor?: string;
+}
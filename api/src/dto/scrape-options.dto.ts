@@ -0,0 +1,207 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  ArrayMaxSize,
+  MaxLength,
+  MinLength,
+  Min,
+  Max,
+  ValidateBy,
+  ValidateNested,
+  ValidationOptions,
+  buildMessage
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RenderMode, WaitStrategy, BlockableResource, ScreenshotFormat, PdfPaperFormat } from '../interfaces/scrape.interface';
+
+// Headers the browser manages itself; cookies go through `cookies`
+const FORBIDDEN_HEADERS = ['host', 'content-length', 'connection', 'cookie'];
+const MAX_HEADERS = 50;
+
+/**
+ * Plain object of string header values, at most MAX_HEADERS entries
+ */
+function IsHeaderRecord(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isHeaderRecord',
+      validator: {
+        validate: (value: unknown): boolean => {
+          if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return false;
+          }
+
+          const entries = Object.entries(value);
+          return entries.length <= MAX_HEADERS && entries.every(([name, headerValue]) =>
+            /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name) &&
+            !FORBIDDEN_HEADERS.includes(name.toLowerCase()) &&
+            typeof headerValue === 'string' &&
+            headerValue.length <= 4096
+          );
+        },
+        defaultMessage: buildMessage(
+          eachPrefix => `${eachPrefix}$property must map up to ${MAX_HEADERS} header names to string values, without ${FORBIDDEN_HEADERS.join(', ')}`,
+          validationOptions
+        )
+      }
+    },
+    validationOptions
+  );
+}
+
+export class ScrapeCookieDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(256)
+  name: string;
+
+  @IsString()
+  @MaxLength(4096)
+  value: string;
+
+  // Defaults to the scraped URL's host
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  domain?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  path?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  secure?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  httpOnly?: boolean;
+}
+
+export class ScrapeViewportDto {
+  @IsInt()
+  @Min(320)
+  @Max(3840)
+  width: number;
+
+  @IsInt()
+  @Min(240)
+  @Max(4320)
+  height: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(3)
+  deviceScaleFactor?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isMobile?: boolean;
+}
+
+export class ScreenshotOptionsDto {
+  @IsOptional()
+  @IsEnum(ScreenshotFormat)
+  format?: ScreenshotFormat;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quality?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  fullPage?: boolean;
+}
+
+export class PdfOptionsDto {
+  @IsOptional()
+  @IsEnum(PdfPaperFormat)
+  format?: PdfPaperFormat;
+
+  @IsOptional()
+  @IsBoolean()
+  landscape?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  printBackground?: boolean;
+}
+
+export class ScrapeOptionsDto {
+  // http: plain request; browser: Puppeteer; auto: http with browser fallback
+  @IsOptional()
+  @IsEnum(RenderMode)
+  renderMode?: RenderMode;
+
+  @IsOptional()
+  @IsEnum(WaitStrategy)
+  waitStrategy?: WaitStrategy;
+
+  // Navigation timeout in milliseconds
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(120000)
+  timeout?: number;
+
+  // Scrape only once this selector is present in the page
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  waitForSelector?: string;
+
+  @IsOptional()
+  @IsHeaderRecord()
+  headers?: Record<string, string>;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ScrapeCookieDto)
+  cookies?: ScrapeCookieDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScrapeViewportDto)
+  viewport?: ScrapeViewportDto;
+
+  // Replaces the DISABLE_IMAGES / DISABLE_CSS defaults; [] loads everything
+  @IsOptional()
+  @IsArray()
+  @IsEnum(BlockableResource, { each: true })
+  blockResources?: BlockableResource[];
+
+  // Extra wait after navigation for scripts to render
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30000)
+  dynamicWaitMs?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  userAgent?: string;
+
+  // Full-page capture, downloadable from /:id/screenshot
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScreenshotOptionsDto)
+  screenshot?: ScreenshotOptionsDto;
+
+  // Print rendering, downloadable from /:id/pdf
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  pdf?: PdfOptionsDto;
+}
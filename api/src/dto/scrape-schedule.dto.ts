@@ -0,0 +1,69 @@
+import {
+  IsArray,
+  IsUrl,
+  IsInt,
+  IsString,
+  IsOptional,
+  MaxLength,
+  ArrayMaxSize,
+  Min,
+  Max
+} from 'class-validator';
+
+export class CreateScheduleDto {
+  @IsUrl()
+  url: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  // Standard 5-field cron expression (an optional leading seconds field is accepted)
+  @IsOptional()
+  @IsString()
+  cronExpression?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(525600)
+  intervalMinutes?: number;
+
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  ignoreSelectors?: string[];
+}
+
+export class UpdateScheduleDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  cronExpression?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(525600)
+  intervalMinutes?: number;
+
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  ignoreSelectors?: string[];
+}
@@ -0,0 +1,49 @@
+import { IsDate, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Query parameters of GET /api/search
+ */
+export class SearchDto {
+  // MongoDB $text syntax: words, "exact phrases" and -excluded words
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  q: string;
+
+  // Host without www, e.g. blog.example.com
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  host?: string;
+
+  // Registrable domain covering all its hosts, e.g. example.com
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  domain?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fetchedAfter?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fetchedBefore?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  offset?: number;
+}
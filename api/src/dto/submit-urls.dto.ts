@@ -1,14 +1,96 @@
-import { IsArray, IsUrl, ArrayNotEmpty, ArrayMaxSize } from 'class-validator';
+import {
+  IsArray,
+  IsUrl,
+  IsString,
+  IsOptional,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsEnum,
+  IsBoolean,
+  MinLength,
+  MaxLength,
+  ValidateIf,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ScrapeOptionsDto } from './scrape-options.dto';
+import { ScrapePriority } from '../interfaces/scrape.interface';
+
+export class SubmitUrlItemDto {
+  @IsUrl()
+  url: string;
+
+  // Merged over the submission-wide options
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScrapeOptionsDto)
+  options?: ScrapeOptionsDto;
+}
 
 export class SubmitUrlsDto {
+  // Required unless `items` is given; both may be combined
+  @ValidateIf(o => o.urls !== undefined || !o.items)
   @IsArray()
   @ArrayNotEmpty()
   @ArrayMaxSize(100)
   @IsUrl({}, { each: true })
-  urls: string[];
+  urls?: string[];
+
+  // URLs with their own scrape options
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => SubmitUrlItemDto)
+  items?: SubmitUrlItemDto[];
+
+  // Scrape options for every URL of the submission
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScrapeOptionsDto)
+  options?: ScrapeOptionsDto;
+
+  // interactive jumps ahead of queued work, bulk yields to everything else (default: normal)
+  @IsOptional()
+  @IsEnum(ScrapePriority)
+  priority?: ScrapePriority;
+
+  // CSS selectors of volatile regions (timestamps, ads, counters) ignored by change detection
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  ignoreSelectors?: string[];
+
+  // Receives a signed POST when each submitted URL finishes or finally fails
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  callbackUrl?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(256)
+  callbackSecret?: string;
+
+  // Free-form tags stored on the submission's batch
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  labels?: string[];
+
+  // Scrape again even if the URL succeeded within SCRAPE_INTERVAL_MINUTES; a scrape already in flight is still not duplicated
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
 }
 
+export type SubmitOptions = Omit<SubmitUrlsDto, 'urls' | 'items'>;
+
 export class SubmitUrlsResponseDto {
+  batchId: string;
   submitted: string[];
   skipped: SkippedUrl[];
   queued: string[];
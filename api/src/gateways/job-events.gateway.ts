@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayDisconnect
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import { WebSocket } from 'ws';
+import { JobEventsService } from '../services/job-events.service';
+import { JobEventFilter } from '../interfaces/job-event.interface';
+
+interface SubscriptionRequest {
+  ids?: string[];
+  urls?: string[];
+}
+
+interface ClientState {
+  filter: JobEventFilter;
+  subscription: Subscription;
+}
+
+/**
+ * WebSocket counterpart of the SSE stream. Clients send
+ * {"event": "subscribe", "data": {"ids": [...], "urls": [...]}} (repeatable, filters add up)
+ * or "unsubscribe" with the same shape, and receive {"event": "status", "data": JobStatusEvent}.
+ */
+@WebSocketGateway({ path: '/api/events/ws' })
+export class JobEventsGateway implements OnGatewayDisconnect {
+  private readonly logger = new Logger(JobEventsGateway.name);
+  private readonly clients = new Map<WebSocket, ClientState>();
+
+  constructor(private readonly jobEventsService: JobEventsService) {}
+
+  @SubscribeMessage('subscribe')
+  async subscribe(@ConnectedSocket() client: WebSocket, @MessageBody() request: SubscriptionRequest): Promise<any> {
+    const added = JobEventsService.buildFilter(this.asList(request?.ids), this.asList(request?.urls));
+    if (!added.ids.length && !added.urls.length) {
+      return { event: 'error', data: { message: 'Subscribe to at least one valid request ID or URL' } };
+    }
+
+    const state = this.getOrCreateState(client);
+    state.filter.ids = Array.from(new Set([...state.filter.ids, ...added.ids]));
+    state.filter.urls = Array.from(new Set([...state.filter.urls, ...added.urls]));
+
+    for (const event of await this.jobEventsService.snapshot(added.ids)) {
+      this.send(client, 'status', event);
+    }
+
+    return { event: 'subscribed', data: state.filter };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(@ConnectedSocket() client: WebSocket, @MessageBody() request: SubscriptionRequest): any {
+    const state = this.clients.get(client);
+    if (!state) {
+      return { event: 'subscribed', data: { ids: [], urls: [] } };
+    }
+
+    const removed = JobEventsService.buildFilter(this.asList(request?.ids), this.asList(request?.urls));
+    state.filter.ids = state.filter.ids.filter(id => !removed.ids.includes(id));
+    state.filter.urls = state.filter.urls.filter(url => !removed.urls.includes(url));
+
+    return { event: 'subscribed', data: state.filter };
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    this.clients.get(client)?.subscription.unsubscribe();
+    this.clients.delete(client);
+  }
+
+  private getOrCreateState(client: WebSocket): ClientState {
+    let state = this.clients.get(client);
+    if (!state) {
+      const filter: JobEventFilter = { ids: [], urls: [] };
+      // The filter is read on every event, so later (un)subscribe messages apply immediately
+      const subscription = this.jobEventsService.stream(filter).subscribe(event => this.send(client, 'status', event));
+      state = { filter, subscription };
+      this.clients.set(client, state);
+    }
+    return state;
+  }
+
+  private send(client: WebSocket, event: string, data: any): void {
+    if (client.readyState !== WebSocket.OPEN) return;
+
+    try {
+      client.send(JSON.stringify({ event, data }));
+    } catch (error) {
+      this.logger.warn(`Failed to send ${event} event to client: ${error.message}`);
+    }
+  }
+
+  private asList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+      return value.filter(item => typeof item === 'string');
+    }
+    return typeof value === 'string' ? [value] : [];
+  }
+}
@@ -0,0 +1,15 @@
+export enum BatchStatus {
+  // Members are still being created
+  SUBMITTING = 'SUBMITTING',
+  RUNNING = 'RUNNING',
+  FINISHED = 'FINISHED'
+}
+
+export interface BatchMemberStats {
+  counts: Record<string, number>;
+  avgResponseTime: number | null;
+  minResponseTime: number | null;
+  maxResponseTime: number | null;
+  firstFetchedAt: Date | null;
+  lastFetchedAt: Date | null;
+}
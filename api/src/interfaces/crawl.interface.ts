@@ -0,0 +1,19 @@
+export enum CrawlStatus {
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum CrawlPageStatus {
+  PENDING = 'PENDING',
+  QUEUED = 'QUEUED',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum CrawlScope {
+  HOST = 'host',
+  DOMAIN = 'domain'
+}
@@ -0,0 +1,32 @@
+import { QueueNames } from './scrape.interface';
+
+export interface DeadLetterInfo {
+  // expired, rejected, maxlen or delivery_limit from the broker; error when a consumer's handler threw
+  reason: string;
+  error?: string;
+  // Queue the message died in
+  queue?: string;
+  deadLetteredAt?: Date;
+  deathCount: number;
+}
+
+export interface DeadLetterMessage extends DeadLetterInfo {
+  messageId: string;
+  // Taken from the payload when it is a scrape message
+  requestId?: string;
+  url?: string;
+  publishedAt?: Date;
+  payload?: any;
+}
+
+export interface DeadLetterQueueStats {
+  queue: QueueNames;
+  deadLetterQueue: string;
+  messageCount: number;
+}
+
+export interface DeadLetterReplayResult {
+  replayed: number;
+  // Payloads that are not valid JSON stay in the dead letter queue
+  skipped: number;
+}
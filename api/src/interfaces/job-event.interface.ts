@@ -0,0 +1,22 @@
+import { FetchStatus, FailureCategory } from './scrape.interface';
+
+export interface JobStatusEvent {
+  requestId: string;
+  url: string;
+  status: FetchStatus;
+  retryCount?: number;
+  // PENDING again after a retryable failure
+  retrying?: boolean;
+  nextRetryAt?: string;
+  httpStatus?: number;
+  errorMessage?: string;
+  failureCategory?: FailureCategory;
+  // Current state sent on subscribe, not a transition
+  snapshot?: boolean;
+  timestamp: string;
+}
+
+export interface JobEventFilter {
+  ids: string[];
+  urls: string[];
+}
@@ -0,0 +1,48 @@
+import { FetchStatus } from './scrape.interface';
+
+export enum ResultSortField {
+  CREATED_AT = 'createdAt',
+  FETCHED_AT = 'fetchedAt',
+  RESPONSE_TIME = 'responseTime',
+  HTTP_STATUS = 'httpStatus'
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc'
+}
+
+// Left out of listings unless named in `fields`
+export const HEAVY_RESULT_FIELDS = ['content', 'textContent', 'markdown'];
+
+export interface ResultFilter {
+  status?: FetchStatus[];
+  host?: string;
+  domain?: string;
+  httpStatusMin?: number;
+  httpStatusMax?: number;
+  fetchedAfter?: Date;
+  fetchedBefore?: Date;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  // Prefix of the Content-Type, e.g. "text/html" or "application/"
+  contentType?: string;
+  hasContent?: boolean;
+}
+
+export interface ResultSort {
+  field: ResultSortField;
+  order: SortOrder;
+}
+
+// Position after the last record of a page: its sort value and _id
+export interface ResultCursorPosition {
+  value: string | number | Date;
+  id: string;
+}
+
+export interface ResultPage<T> {
+  items: T[];
+  // Pass as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
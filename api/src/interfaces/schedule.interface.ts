@@ -0,0 +1,4 @@
+export enum ScheduleStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED'
+}
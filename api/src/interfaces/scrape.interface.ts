@@ -1,43 +1,228 @@
 export interface ScrapeRequest {
   id: string;
   url: string;
+  // Token of this queuing of the request; a message the API has since re-queued carries a stale one
+  dispatchId?: string;
   userAgent?: string;
   timeout?: number;
   retryCount?: number;
+  // RabbitMQ message priority, 1-10 (higher is delivered first)
   priority?: number;
+  // CSS selectors of volatile regions left out of change detection
+  ignoreSelectors?: string[];
+  options?: ScrapeOptions;
+}
+
+// Priority level of a submission, mapped to a message priority by QueuePriority
+export enum ScrapePriority {
+  INTERACTIVE = 'interactive',
+  NORMAL = 'normal',
+  BULK = 'bulk'
+}
+
+export interface PriorityBacklog {
+  // Null for records created before priorities were stored
+  priority: number | null;
+  // Queued for a scraper now
+  waiting: number;
+  // Waiting out a retry delay
+  delayed: number;
+}
+
+export interface ScrapeQueueStats {
+  // As reported by RabbitMQ, delayed retries excluded
+  messageCount: number;
+  consumerCount: number;
+  // PENDING records per message priority, highest first
+  byPriority: PriorityBacklog[];
+}
+
+export enum RenderMode {
+  HTTP = 'http',        // Plain HTTP request, no JavaScript
+  BROWSER = 'browser',  // Full Puppeteer page
+  AUTO = 'auto'         // HTTP first, browser when the page needs JavaScript
+}
+
+export enum WaitStrategy {
+  FAST = 'fast',                   // domcontentloaded
+  BASIC = 'basic',                 // load
+  MODERATE = 'moderate',           // networkidle0
+  COMPREHENSIVE = 'comprehensive'  // networkidle2
+}
+
+export enum BlockableResource {
+  IMAGE = 'image',
+  MEDIA = 'media',
+  FONT = 'font',
+  STYLESHEET = 'stylesheet',
+  SCRIPT = 'script',
+  XHR = 'xhr',
+  FETCH = 'fetch',
+  WEBSOCKET = 'websocket',
+  OTHER = 'other'
+}
+
+export interface ScrapeCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+}
+
+export interface ScrapeViewport {
+  width: number;
+  height: number;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+}
+
+/**
+ * Per-request browser settings; anything left out falls back to the scraper's env defaults
+ */
+export interface ScrapeOptions {
+  renderMode?: RenderMode;
+  waitStrategy?: WaitStrategy;
+  timeout?: number;
+  waitForSelector?: string;
+  headers?: Record<string, string>;
+  cookies?: ScrapeCookie[];
+  viewport?: ScrapeViewport;
+  // Resource types to abort; an empty list loads everything
+  blockResources?: BlockableResource[];
+  dynamicWaitMs?: number;
+  userAgent?: string;
+  // Visual captures of the rendered page, see ScrapeArtifact
+  screenshot?: ScreenshotOptions;
+  pdf?: PdfOptions;
+}
+
+export enum ScreenshotFormat {
+  PNG = 'png',
+  JPEG = 'jpeg'
+}
+
+export interface ScreenshotOptions {
+  format?: ScreenshotFormat;
+  // JPEG only, 1-100
+  quality?: number;
+  // Whole scrollable page instead of the viewport (default: true)
+  fullPage?: boolean;
+}
+
+export enum PdfPaperFormat {
+  A4 = 'A4',
+  LETTER = 'Letter',
+  LEGAL = 'Legal'
+}
+
+export interface PdfOptions {
+  format?: PdfPaperFormat;
+  landscape?: boolean;
+  printBackground?: boolean;
+}
+
+export enum ArtifactKind {
+  SCREENSHOT = 'screenshot',
+  PDF = 'pdf'
+}
+
+/**
+ * Binary capture of a page, base64 encoded for the results queue
+ */
+export interface ScrapeArtifact {
+  kind: ArtifactKind;
+  contentType: string;
+  data: string;
+}
+
+export enum ContentKind {
+  HTML = 'html',
+  JSON = 'json',
+  XML = 'xml',      // Including RSS and Atom feeds
+  TEXT = 'text',
+  PDF = 'pdf',
+  BINARY = 'binary' // Images and anything else without text
 }
 
 export interface ScrapeResult {
   id: string;
   url: string;
+  // Echoed from the ScrapeRequest
+  dispatchId?: string;
   success: boolean;
   content?: string;
   contentType?: string;
+  contentKind?: ContentKind;
+  // Original response bytes, base64 encoded; sent for every kind except HTML
+  rawBody?: string;
   httpStatus?: number;
   errorMessage?: string;
   finalUrl?: string;
   responseTime: number;
   contentLength: number;
   contentHash?: string;
+  // Hash of the visible text without ignored regions (see ignoreSelectors)
+  textHash?: string;
+  textContent?: string;
+  markdown?: string;
+  wordCount?: number;
+  metadata?: PageMetadata;
+  links?: OutboundLink[];
+  robotsDirectives?: RobotsDirectives;
   userAgent: string;
   redirectChain?: string[];
+  artifacts?: ScrapeArtifact[];
+  // How the page was fetched (HTTP or BROWSER) and, in AUTO mode, why the browser was needed
+  renderMode?: RenderMode;
+  renderFallbackReason?: string;
   scrapedAt: Date;
 }
 
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  language?: string;
+  canonicalUrl?: string;
+  openGraph?: Record<string, string>;
+  twitter?: Record<string, string>;
+  jsonLd?: any[];
+}
+
+export interface OutboundLink {
+  href: string;
+  text: string;
+  rel: string[];
+}
+
+export interface RobotsDirectives {
+  noindex: boolean;
+  nofollow: boolean;
+  noarchive: boolean;
+}
+
 export interface ScrapeFailure {
   id: string;
   url: string;
+  // Echoed from the ScrapeRequest
+  dispatchId?: string;
   errorMessage: string;
   retryCount: number;
   maxRetries: number;
   canRetry: boolean;
   httpStatus?: number;
+  category?: FailureCategory;
+  // From the target's Retry-After header; takes precedence over the computed backoff
+  retryAfterSeconds?: number;
   failedAt: Date;
 }
 
 export interface ScrapeStarted {
   id: string;
   url: string;
+  // Echoed from the ScrapeRequest
+  dispatchId?: string;
   startedAt: Date;
   userAgent: string;
 }
@@ -47,12 +232,53 @@ export enum FetchStatus {
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
   FAILED = 'FAILED',
+  // Stopped on request; late results and failures no longer change the record
+  CANCELLED = 'CANCELLED',
   ARCHIVED = 'ARCHIVED'
 }
 
+export enum FailureCategory {
+  HTTP_ERROR = 'HTTP_ERROR',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  ROBOTS_DISALLOWED = 'ROBOTS_DISALLOWED',
+  PROCESSING_ERROR = 'PROCESSING_ERROR',
+  // Expired in the queue or rejected by a consumer
+  DEAD_LETTERED = 'DEAD_LETTERED',
+  UNKNOWN = 'UNKNOWN'
+}
+
+export enum ChangeStatus {
+  NEW = 'NEW',
+  UNCHANGED = 'UNCHANGED',
+  CHANGED = 'CHANGED'
+}
+
 export enum QueueNames {
   SCRAPE_REQUESTS = 'scrape.requests',
   SCRAPE_STARTED = 'scrape.started',
   SCRAPE_RESULTS = 'scrape.results',
-  SCRAPE_FAILURES = 'scrape.failures'
+  SCRAPE_FAILURES = 'scrape.failures',
+  // Copies of dead-lettered scrape requests, so their records can be marked FAILED
+  REQUEST_DEATHS = 'scrape.requests.deaths'
+}
+
+export enum ExchangeNames {
+  // Fanout of job status transitions to every API instance
+  JOB_EVENTS = 'scrape.job-events',
+  // Direct exchange; a dead letter's routing key is the queue it died in
+  DEAD_LETTER = 'scrape.dead-letter',
+  // Fanout from the API to every scraper
+  SCRAPER_CONTROL = 'scrape.control'
+}
+
+export enum ControlAction {
+  CANCEL = 'cancel'
+}
+
+// Broadcast from the API to every scraper over ExchangeNames.SCRAPER_CONTROL
+export interface ScraperControlMessage {
+  action: ControlAction;
+  requestIds: string[];
+  sentAt: string;
 }
@@ -0,0 +1,24 @@
+// Quoted phrases and bare terms of a search, negated ones (-term) left out
+export interface ParsedSearchQuery {
+  phrases: string[];
+  terms: string[];
+}
+
+export interface SearchHit {
+  id: string;
+  url: string;
+  title?: string;
+  host?: string;
+  fetchedAt?: Date;
+  score: number;
+  // Passages of the extracted text with the matches wrapped in <mark>, HTML escaped
+  snippets: string[];
+}
+
+export interface SearchResults {
+  query: string;
+  total: number;
+  limit: number;
+  offset: number;
+  items: SearchHit[];
+}
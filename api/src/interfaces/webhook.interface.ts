@@ -0,0 +1,28 @@
+import { FetchStatus, FailureCategory, ChangeStatus } from './scrape.interface';
+
+export enum WebhookEvent {
+  SCRAPE_COMPLETED = 'scrape.completed',
+  SCRAPE_FAILED = 'scrape.failed',
+  SCRAPE_CANCELLED = 'scrape.cancelled'
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  FAILED = 'FAILED'
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  requestId: string;
+  url: string;
+  status: FetchStatus;
+  finalUrl?: string;
+  httpStatus?: number;
+  fetchedAt?: Date;
+  contentHash?: string;
+  changeStatus?: ChangeStatus;
+  changeRatio?: number;
+  errorMessage?: string;
+  failureCategory?: FailureCategory;
+}
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
@@ -14,6 +15,9 @@ async function bootstrap() {
 
   app.enableCors();
 
+  // Plain WebSocket transport for the job events gateway
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   const config = new DocumentBuilder()
     .setTitle('URL Content Provider API')
     .setDescription('API for URL content scraping and retrieval')
@@ -0,0 +1,22 @@
+import * as amqp from 'amqplib';
+import { QueueMigration } from './utils/queue-migration.util';
+
+/**
+ * One-off upgrade step for RabbitMQ queues declared by an earlier version.
+ * Run with the API and scrapers stopped: `npm run migrate:queues`
+ */
+async function migrate() {
+  const connection = await amqp.connect(process.env.RABBITMQ_URL || 'amqp://localhost:5672');
+
+  try {
+    const migrated = await QueueMigration.run(connection);
+    console.log(migrated.length ? `Re-declared ${migrated.join(', ')}` : 'Scrape queues are up to date');
+  } finally {
+    await connection.close();
+  }
+}
+
+migrate().catch(error => {
+  console.error('Queue migration failed:', error);
+  process.exit(1);
+});
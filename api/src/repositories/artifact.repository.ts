@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection, Types, mongo } from 'mongoose';
+
+/**
+ * Binary files (screenshots, PDFs) in a GridFS bucket, kept out of the
+ * fetch request documents to stay clear of the 16 MB document limit
+ */
+@Injectable()
+export class ArtifactRepository {
+  private static readonly BUCKET_NAME = 'artifacts';
+  private bucket?: mongo.GridFSBucket;
+
+  constructor(@InjectConnection() private readonly connection: Connection) {}
+
+  async upload(
+    filename: string,
+    data: Buffer,
+    contentType: string,
+    metadata: Record<string, any>
+  ): Promise<Types.ObjectId> {
+    return new Promise((resolve, reject) => {
+      const upload = this.getBucket().openUploadStream(filename, { contentType, metadata });
+      upload.once('error', reject);
+      upload.once('finish', () => resolve(upload.id as Types.ObjectId));
+      upload.end(data);
+    });
+  }
+
+  async findFile(id: Types.ObjectId): Promise<mongo.GridFSFile | null> {
+    const [file] = await this.getBucket().find({ _id: id }).limit(1).toArray();
+    return file || null;
+  }
+
+  openDownloadStream(id: Types.ObjectId): mongo.GridFSBucketReadStream {
+    return this.getBucket().openDownloadStream(id);
+  }
+
+  async delete(id: Types.ObjectId): Promise<void> {
+    await this.getBucket().delete(id);
+  }
+
+  // Created on first use, once the connection is open
+  private getBucket(): mongo.GridFSBucket {
+    if (!this.bucket) {
+      this.bucket = new mongo.GridFSBucket(this.connection.db, { bucketName: ArtifactRepository.BUCKET_NAME });
+    }
+    return this.bucket;
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Batch, BatchDocument } from '../schemas/batch.schema';
+import { BatchStatus } from '../interfaces/batch.interface';
+
+@Injectable()
+export class BatchRepository {
+  constructor(
+    @InjectModel(Batch.name)
+    private readonly model: Model<BatchDocument>
+  ) {}
+
+  async create(data: Partial<Batch>): Promise<BatchDocument> {
+    const created = new this.model(data);
+    return created.save();
+  }
+
+  async findById(id: string): Promise<BatchDocument | null> {
+    return this.model.findById(id).exec();
+  }
+
+  async update(id: string, data: Partial<Batch>): Promise<BatchDocument | null> {
+    return this.model.findByIdAndUpdate(id, data, { new: true }).exec();
+  }
+
+  /**
+   * Atomically move a batch between states, only if it is currently in `from`
+   */
+  async transition(
+    id: string,
+    from: BatchStatus,
+    to: BatchStatus,
+    data: Partial<Batch> = {}
+  ): Promise<BatchDocument | null> {
+    return this.model
+      .findOneAndUpdate(
+        { _id: id, status: from },
+        { ...data, status: to },
+        { new: true }
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ContentBlob, ContentBlobDocument } from '../schemas/content-blob.schema';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class ContentBlobRepository {
+  constructor(
+    @InjectModel(ContentBlob.name)
+    private readonly model: Model<ContentBlobDocument>
+  ) {}
+
+  /**
+   * Insert a blob unless one with the same hash exists.
+   * Relies on the unique hash index, so concurrent writers of one body are safe.
+   */
+  async createIfAbsent(data: ContentBlob): Promise<boolean> {
+    try {
+      await new this.model(data).save();
+      return true;
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async exists(hash: string): Promise<boolean> {
+    return !!(await this.model.exists({ hash }).exec());
+  }
+
+  async findByHashes(hashes: string[]): Promise<ContentBlobDocument[]> {
+    return this.model.find({ hash: { $in: hashes } }).exec();
+  }
+}
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CrawlPage, CrawlPageDocument } from '../schemas/crawl-page.schema';
+import { CrawlPageStatus } from '../interfaces/crawl.interface';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class CrawlPageRepository {
+  constructor(
+    @InjectModel(CrawlPage.name)
+    private readonly model: Model<CrawlPageDocument>
+  ) {}
+
+  /**
+   * Insert a page unless the crawl already knows its URL.
+   * Relies on the unique (crawlId, url) index, so it is safe across consumers.
+   */
+  async createIfAbsent(data: Partial<CrawlPage>): Promise<CrawlPageDocument | null> {
+    try {
+      const created = new this.model(data);
+      return await created.save();
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.model.findByIdAndDelete(id).exec();
+  }
+
+  async update(id: string, data: Partial<CrawlPage>): Promise<CrawlPageDocument | null> {
+    return this.model.findByIdAndUpdate(id, data, { new: true }).exec();
+  }
+
+  /**
+   * Move a QUEUED page to its final status; null when another consumer already did
+   */
+  async finishQueued(id: string, status: CrawlPageStatus): Promise<CrawlPageDocument | null> {
+    return this.model
+      .findOneAndUpdate({ _id: id, status: CrawlPageStatus.QUEUED }, { status, finishedAt: new Date() }, { new: true })
+      .exec();
+  }
+
+  async findByFetchRequestId(fetchRequestId: string): Promise<CrawlPageDocument | null> {
+    return this.model.findOne({ fetchRequestId: new Types.ObjectId(fetchRequestId) }).exec();
+  }
+
+  async findByCrawl(
+    crawlId: string,
+    status?: CrawlPageStatus,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<CrawlPage[]> {
+    const filter: any = { crawlId: new Types.ObjectId(crawlId) };
+    if (status) {
+      filter.status = status;
+    }
+
+    return this.model
+      .find(filter)
+      .sort({ depth: 1, createdAt: 1 })
+      .skip(offset)
+      .limit(limit)
+      .exec();
+  }
+
+  async findPending(crawlId: string): Promise<CrawlPageDocument[]> {
+    return this.model
+      .find({ crawlId: new Types.ObjectId(crawlId), status: CrawlPageStatus.PENDING })
+      .sort({ depth: 1, createdAt: 1 })
+      .exec();
+  }
+
+  async countByStatus(crawlId: string): Promise<Partial<Record<CrawlPageStatus, number>>> {
+    const groups = await this.model
+      .aggregate([
+        { $match: { crawlId: new Types.ObjectId(crawlId) } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+      .exec();
+
+    return groups.reduce((counts, group) => ({ ...counts, [group._id]: group.count }), {});
+  }
+
+  async countOpen(crawlId: string): Promise<number> {
+    return this.model.countDocuments({
+      crawlId: new Types.ObjectId(crawlId),
+      status: { $in: [CrawlPageStatus.PENDING, CrawlPageStatus.QUEUED] }
+    }).exec();
+  }
+
+  async cancelPending(crawlId: string): Promise<number> {
+    const result = await this.model.updateMany(
+      { crawlId: new Types.ObjectId(crawlId), status: CrawlPageStatus.PENDING },
+      { status: CrawlPageStatus.CANCELLED, finishedAt: new Date() }
+    ).exec();
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Crawl, CrawlDocument } from '../schemas/crawl.schema';
+import { CrawlStatus } from '../interfaces/crawl.interface';
+
+@Injectable()
+export class CrawlRepository {
+  constructor(
+    @InjectModel(Crawl.name)
+    private readonly model: Model<CrawlDocument>
+  ) {}
+
+  async create(data: Partial<Crawl>): Promise<CrawlDocument> {
+    const created = new this.model(data);
+    return created.save();
+  }
+
+  async findById(id: string): Promise<CrawlDocument | null> {
+    return this.model.findById(id).exec();
+  }
+
+  async findAll(limit: number = 50, offset: number = 0): Promise<Crawl[]> {
+    return this.model
+      .find()
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip(offset)
+      .exec();
+  }
+
+  /**
+   * Atomically move a crawl between states, only if it is currently in one of `from`
+   */
+  async transition(
+    id: string,
+    from: CrawlStatus[],
+    to: CrawlStatus,
+    data: Partial<Crawl> = {}
+  ): Promise<CrawlDocument | null> {
+    return this.model
+      .findOneAndUpdate(
+        { _id: id, status: { $in: from } },
+        { ...data, status: to },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Reserve a slot for one more page, atomically bounded by maxPages
+   * so concurrent consumers can never exceed the limit
+   */
+  async reservePageSlot(id: string): Promise<boolean> {
+    const result = await this.model
+      .findOneAndUpdate(
+        { _id: id, $expr: { $lt: ['$pagesAdmitted', '$maxPages'] } },
+        { $inc: { pagesAdmitted: 1 } }
+      )
+      .exec();
+    return !!result;
+  }
+
+  async incrementCounters(id: string, counters: Partial<Record<'pagesSucceeded' | 'pagesFailed', number>>): Promise<void> {
+    await this.model.updateOne({ _id: id }, { $inc: counters }).exec();
+  }
+}
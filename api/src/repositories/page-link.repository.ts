@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { PageLink, PageLinkDocument } from '../schemas/page-link.schema';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+
+@Injectable()
+export class PageLinkRepository {
+  constructor(
+    @InjectModel(PageLink.name)
+    private readonly model: Model<PageLinkDocument>
+  ) {}
+
+  /**
+   * Replace the outbound links of a page with the ones found by its latest scrape
+   * so the collection always reflects the current link graph
+   */
+  async replaceForSource(
+    sourceUrl: string,
+    fetchRequestId: string,
+    links: Partial<PageLink>[]
+  ): Promise<number> {
+    await this.model.deleteMany({ sourceUrl }).exec();
+
+    if (links.length === 0) {
+      return 0;
+    }
+
+    const documents = links.map(link => ({
+      ...link,
+      sourceUrl,
+      fetchRequestId: new Types.ObjectId(fetchRequestId)
+    }));
+
+    const inserted = await this.model.insertMany(documents, { ordered: false });
+    return inserted.length;
+  }
+
+  async findOutbound(
+    url: string,
+    isInternal?: boolean,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<PageLink[]> {
+    const filter: any = { sourceUrl: UrlNormalizer.getCanonicalUrl(url) };
+    if (isInternal !== undefined) {
+      filter.isInternal = isInternal;
+    }
+
+    return this.model
+      .find(filter)
+      .sort({ targetUrl: 1 })
+      .skip(offset)
+      .limit(limit)
+      .exec();
+  }
+
+  async findInbound(
+    url: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<PageLink[]> {
+    return this.model
+      .find({ targetUrl: UrlNormalizer.getCanonicalUrl(url) })
+      .sort({ sourceUrl: 1 })
+      .skip(offset)
+      .limit(limit)
+      .exec();
+  }
+
+  async countOutbound(url: string, isInternal?: boolean): Promise<number> {
+    const filter: any = { sourceUrl: UrlNormalizer.getCanonicalUrl(url) };
+    if (isInternal !== undefined) {
+      filter.isInternal = isInternal;
+    }
+
+    return this.model.countDocuments(filter).exec();
+  }
+
+  async countInbound(url: string): Promise<number> {
+    return this.model.countDocuments({ targetUrl: UrlNormalizer.getCanonicalUrl(url) }).exec();
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ScrapeSchedule, ScrapeScheduleDocument } from '../schemas/scrape-schedule.schema';
+import { ScheduleStatus } from '../interfaces/schedule.interface';
+import { FetchStatus } from '../interfaces/scrape.interface';
+
+@Injectable()
+export class ScrapeScheduleRepository {
+  constructor(
+    @InjectModel(ScrapeSchedule.name)
+    private readonly model: Model<ScrapeScheduleDocument>
+  ) {}
+
+  async create(data: Partial<ScrapeSchedule>): Promise<ScrapeScheduleDocument> {
+    const created = new this.model(data);
+    return created.save();
+  }
+
+  async findById(id: string): Promise<ScrapeScheduleDocument | null> {
+    return this.model.findById(id).exec();
+  }
+
+  async findAll(
+    filter: any = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<ScrapeScheduleDocument[]> {
+    return this.model
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip(offset)
+      .exec();
+  }
+
+  async update(id: string, data: Partial<ScrapeSchedule>): Promise<ScrapeScheduleDocument | null> {
+    return this.model.findByIdAndUpdate(id, data, { new: true }).exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.model.deleteOne({ _id: id }).exec();
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Atomically move a schedule between states, only if it is currently in `from`
+   */
+  async transition(
+    id: string,
+    from: ScheduleStatus,
+    to: ScheduleStatus,
+    data: Partial<ScrapeSchedule> = {}
+  ): Promise<ScrapeScheduleDocument | null> {
+    return this.model
+      .findOneAndUpdate(
+        { _id: id, status: from },
+        { ...data, status: to },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Claim the most overdue active schedule for one instance. The claim is a single
+   * atomic update, so with several API instances each due run is fired by exactly one.
+   * An expired claim (instance died mid-run) can be taken over.
+   */
+  async claimDue(owner: string, now: Date, lockMs: number): Promise<ScrapeScheduleDocument | null> {
+    return this.model
+      .findOneAndUpdate(
+        {
+          status: ScheduleStatus.ACTIVE,
+          nextRunAt: { $lte: now },
+          $or: [
+            { lockedUntil: null },
+            { lockedUntil: { $lte: now } }
+          ]
+        },
+        { lockedBy: owner, lockedUntil: new Date(now.getTime() + lockMs) },
+        { new: true, sort: { nextRunAt: 1 } }
+      )
+      .exec();
+  }
+
+  /**
+   * Record a fired run and release the claim, only if this instance still holds it
+   */
+  async completeRun(
+    id: string,
+    owner: string,
+    data: Partial<ScrapeSchedule>,
+    countRun: boolean
+  ): Promise<void> {
+    await this.model
+      .updateOne(
+        { _id: id, lockedBy: owner },
+        {
+          $set: data,
+          $unset: { lockedBy: 1, lockedUntil: 1 },
+          $inc: { runCount: countRun ? 1 : 0 }
+        }
+      )
+      .exec();
+  }
+
+  /**
+   * Update the last run status, ignoring results of runs that were superseded by a newer one
+   */
+  async recordOutcome(id: string, fetchRequestId: string, status: FetchStatus): Promise<void> {
+    await this.model
+      .updateOne(
+        { _id: id, lastFetchRequestId: new Types.ObjectId(fetchRequestId) },
+        { lastStatus: status }
+      )
+      .exec();
+  }
+}
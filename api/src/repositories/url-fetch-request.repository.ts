@@ -1,9 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { UrlFetchRequest, UrlFetchRequestDocument } from '../schemas/url-fetch-request.schema';
-import { FetchStatus } from '../interfaces/scrape.interface';
+import { FailureCategory, FetchStatus, PriorityBacklog } from '../interfaces/scrape.interface';
+import { BatchMemberStats } from '../interfaces/batch.interface';
+import {
+  HEAVY_RESULT_FIELDS,
+  ResultCursorPosition,
+  ResultFilter,
+  ResultSort,
+  ResultSortField,
+  SortOrder
+} from '../interfaces/result-query.interface';
 import { UrlNormalizer } from '../utils/url-normalizer.util';
+import { Dispatch } from '../utils/dispatch.util';
 
 @Injectable()
 export class UrlFetchRequestRepository {
@@ -13,7 +23,7 @@ export class UrlFetchRequestRepository {
   ) {}
 
   async create(data: Partial<UrlFetchRequest>): Promise<UrlFetchRequestDocument> {
-    const created = new this.model(data);
+    const created = new this.model({ ...data, ...this.siteOf(data.url) });
     return created.save();
   }
 
@@ -21,6 +31,11 @@ export class UrlFetchRequestRepository {
     return this.model.findById(id).exec();
   }
 
+  async findCallbackSecret(id: string): Promise<string | undefined> {
+    const request = await this.model.findById(id).select('+callbackSecret').exec();
+    return request?.callbackSecret;
+  }
+
   async findByUrl(url: string): Promise<UrlFetchRequest | null> {
     const normalizedUrl = UrlNormalizer.normalize(url);
     const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
@@ -55,6 +70,30 @@ export class UrlFetchRequestRepository {
       .exec();
   }
 
+  /**
+   * Latest successful scrape of the same URL fetched before the given time, excluding `excludeId`
+   */
+  async findPreviousSuccess(url: string, before: Date, excludeId: string): Promise<UrlFetchRequest | null> {
+    const normalizedUrl = UrlNormalizer.normalize(url);
+    const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
+
+    return this.model
+      .findOne({
+        _id: { $ne: excludeId },
+        $or: [
+          { url },
+          { url: canonicalUrl },
+          { url: normalizedUrl },
+          { url: `https://${normalizedUrl}` },
+          { url: `http://${normalizedUrl}` }
+        ],
+        status: FetchStatus.SUCCESS,
+        fetchedAt: { $lte: before }
+      })
+      .sort({ fetchedAt: -1 })
+      .exec();
+  }
+
   async findAll(
     filter: any = {},
     limit: number = 50,
@@ -68,6 +107,200 @@ export class UrlFetchRequestRepository {
       .exec();
   }
 
+  /**
+   * One page of the results listing, ordered by the sort field then _id so a cursor
+   * resumes exactly after the last record. `fields` selects what is returned (the sort
+   * field is always included for the next cursor); without it the heavy text fields are left out.
+   */
+  async findPage(
+    filter: ResultFilter,
+    sort: ResultSort,
+    limit: number,
+    after?: ResultCursorPosition,
+    fields?: string[]
+  ): Promise<UrlFetchRequestDocument[]> {
+    const direction = sort.order === SortOrder.ASC ? 1 : -1;
+    const conditions = this.buildResultConditions(filter);
+
+    // Records without the sort value could not be placed by a cursor
+    if (sort.field !== ResultSortField.CREATED_AT) {
+      conditions.push({ [sort.field]: { $ne: null } });
+    }
+
+    if (after) {
+      const beyond = direction === 1 ? '$gt' : '$lt';
+      conditions.push({
+        $or: [
+          { [sort.field]: { [beyond]: after.value } },
+          { [sort.field]: after.value, _id: { [beyond]: new Types.ObjectId(after.id) } }
+        ]
+      });
+    }
+
+    const projection = fields
+      ? [...new Set([...fields, sort.field, ...(fields.includes('content') ? ['contentRef'] : [])])]
+      : HEAVY_RESULT_FIELDS.map(field => `-${field}`);
+
+    return this.model
+      .find(conditions.length ? { $and: conditions } : {})
+      .select(projection.join(' '))
+      .sort({ [sort.field]: direction, _id: direction })
+      .limit(limit)
+      .exec();
+  }
+
+  private buildResultConditions(filter: ResultFilter): Record<string, any>[] {
+    const conditions: Record<string, any>[] = [];
+
+    if (filter.status?.length) {
+      conditions.push({ status: { $in: filter.status } });
+    }
+    if (filter.host) {
+      conditions.push({ host: UrlNormalizer.getHostname(filter.host) });
+    }
+    if (filter.domain) {
+      conditions.push({ domain: UrlNormalizer.getRegistrableDomain(filter.domain) });
+    }
+
+    const ranges: Array<[string, unknown, unknown]> = [
+      ['httpStatus', filter.httpStatusMin, filter.httpStatusMax],
+      ['fetchedAt', filter.fetchedAfter, filter.fetchedBefore],
+      ['createdAt', filter.createdAfter, filter.createdBefore]
+    ];
+    for (const [field, from, to] of ranges) {
+      if (from !== undefined || to !== undefined) {
+        conditions.push({
+          [field]: { ...(from !== undefined ? { $gte: from } : {}), ...(to !== undefined ? { $lte: to } : {}) }
+        });
+      }
+    }
+
+    if (filter.contentType) {
+      const escaped = filter.contentType.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      conditions.push({ contentType: { $regex: `^${escaped}` } });
+    }
+
+    if (filter.hasContent === true) {
+      conditions.push({ $or: [{ contentRef: { $ne: null } }, { content: { $ne: null } }] });
+    } else if (filter.hasContent === false) {
+      conditions.push({ contentRef: null, content: null });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Text search over the latest success of each URL, best match first, with the relevance
+   * as `score`. Plain objects, as the score is not part of the schema.
+   */
+  async search(text: string, filter: ResultFilter, limit: number, offset: number): Promise<any[]> {
+    return this.model
+      .find(this.buildSearchQuery(text, filter), {
+        score: { $meta: 'textScore' },
+        url: 1,
+        host: 1,
+        fetchedAt: 1,
+        textContent: 1,
+        'metadata.title': 1
+      })
+      .sort({ score: { $meta: 'textScore' }, _id: -1 })
+      .skip(offset)
+      .limit(limit)
+      .lean()
+      .exec();
+  }
+
+  async countSearch(text: string, filter: ResultFilter): Promise<number> {
+    return this.model.countDocuments(this.buildSearchQuery(text, filter)).exec();
+  }
+
+  // `latest: true` is also what lets MongoDB use the partial text index
+  private buildSearchQuery(text: string, filter: ResultFilter): Record<string, any> {
+    const conditions = this.buildResultConditions(filter);
+    return {
+      $text: { $search: text },
+      latest: true,
+      status: FetchStatus.SUCCESS,
+      ...(conditions.length ? { $and: conditions } : {})
+    };
+  }
+
+  /**
+   * Flag the newest success of the URL as its latest version and unflag the others.
+   * Safe under concurrent calls: only versions older than the newest one seen after our
+   * own write are unflagged, so a call that read a stale newest never unflags a newer one,
+   * and the call for the newer one unflags it in turn.
+   */
+  async markLatestVersion(url: string): Promise<void> {
+    const newest = await this.findNewestSuccess(url);
+    if (!newest) {
+      return;
+    }
+    await this.model.updateOne({ _id: newest._id }, { latest: true }).exec();
+
+    const current = await this.findNewestSuccess(url);
+    await this.model.updateMany(
+      {
+        url,
+        latest: true,
+        $or: [
+          { fetchedAt: { $lt: current.fetchedAt } },
+          { fetchedAt: current.fetchedAt, _id: { $ne: current._id } }
+        ]
+      },
+      { latest: null }
+    ).exec();
+  }
+
+  private async findNewestSuccess(url: string): Promise<UrlFetchRequestDocument | null> {
+    return this.model
+      .findOne({ url, status: FetchStatus.SUCCESS }, { _id: 1, fetchedAt: 1 })
+      .sort({ fetchedAt: -1, _id: -1 })
+      .exec();
+  }
+
+  /**
+   * Flag the newest success of URLs that have no latest version yet, e.g. scraped before
+   * the flag existed; returns how many were flagged
+   */
+  async backfillLatestVersions(limit: number): Promise<number> {
+    const unflagged = await this.model
+      .aggregate([
+        { $match: { status: FetchStatus.SUCCESS } },
+        { $sort: { url: 1, fetchedAt: -1 } },
+        { $group: { _id: '$url', newest: { $first: '$_id' }, flagged: { $max: '$latest' } } },
+        { $match: { flagged: { $ne: true } } },
+        { $limit: limit }
+      ])
+      .allowDiskUse(true)
+      .exec();
+    if (!unflagged.length) {
+      return 0;
+    }
+
+    await this.model.updateMany({ _id: { $in: unflagged.map(url => url.newest) } }, { latest: true }).exec();
+    return unflagged.length;
+  }
+
+  /**
+   * Fill host and domain on records created before they were stored; returns how many were updated
+   */
+  async backfillSites(limit: number): Promise<number> {
+    const missing = await this.model.find({ host: null }, { url: 1 }).limit(limit).exec();
+    if (!missing.length) {
+      return 0;
+    }
+
+    await this.model.bulkWrite(missing.map(record => ({
+      updateOne: { filter: { _id: record._id }, update: { $set: this.siteOf(record.url) } }
+    })));
+    return missing.length;
+  }
+
+  private siteOf(url?: string): Pick<UrlFetchRequest, 'host' | 'domain'> {
+    return url ? { host: UrlNormalizer.getHostname(url), domain: UrlNormalizer.getRegistrableDomain(url) } : {};
+  }
+
   async update(
     id: string,
     data: Partial<UrlFetchRequest>
@@ -77,11 +310,195 @@ export class UrlFetchRequestRepository {
       .exec();
   }
 
+  /**
+   * Like update(), but only while the record is open and dispatchId is its current dispatch
+   * (see Dispatch); null for a cancelled, finished, superseded or unknown request
+   */
+  async updateIfCurrent(
+    id: string,
+    dispatchId: string | undefined,
+    data: Partial<UrlFetchRequest>
+  ): Promise<UrlFetchRequest | null> {
+    return this.model
+      .findOneAndUpdate(Dispatch.currentFilter(id, dispatchId), data, { new: true })
+      .exec();
+  }
+
+  /**
+   * Cancel a request that has not finished; null when it is unknown or already finished
+   */
+  async cancel(id: string): Promise<UrlFetchRequest | null> {
+    return this.model
+      .findOneAndUpdate(
+        { _id: id, status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] } },
+        { status: FetchStatus.CANCELLED, cancelledAt: new Date(), nextRetryAt: null },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Make a replayed dead scrape request the record's current dispatch again. Only records the
+   * dead letter failed, or that are still open, are reopened; null when it finished otherwise.
+   */
+  async reopenForReplay(id: string, dispatchId: string): Promise<UrlFetchRequest | null> {
+    return this.model
+      .findOneAndUpdate(
+        {
+          _id: id,
+          $or: [
+            { status: { $in: Dispatch.OPEN_STATUSES } },
+            { status: FetchStatus.FAILED, failureCategory: FailureCategory.DEAD_LETTERED }
+          ]
+        },
+        { status: FetchStatus.PENDING, dispatchId, nextRetryAt: null },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Raise the priority of a request still waiting in the queue and give it the dispatchId of
+   * the message that will carry the new priority; null when it is not waiting, is held back
+   * by a retry delay or already has at least this priority
+   */
+  async raisePriority(id: string, priority: number, dispatchId: string, now: Date): Promise<UrlFetchRequest | null> {
+    return this.model
+      .findOneAndUpdate(
+        {
+          _id: id,
+          status: FetchStatus.PENDING,
+          nextRetryAt: { $not: { $gt: now } },
+          $or: [{ priority: { $lt: priority } }, { priority: null }]
+        },
+        { priority, dispatchId },
+        { new: true }
+      )
+      .exec();
+  }
+
   async delete(id: string): Promise<boolean> {
     const result = await this.model.findByIdAndDelete(id).exec();
     return !!result;
   }
 
+  /**
+   * Records whose body is still stored inline, written before the content store existed
+   */
+  async findWithInlineContent(limit: number): Promise<UrlFetchRequest[]> {
+    return this.model
+      .find({ content: { $type: 'string' } })
+      .select('_id content')
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async countWithInlineContent(): Promise<number> {
+    return this.model.countDocuments({ content: { $type: 'string' } }).exec();
+  }
+
+  /**
+   * Replace the inline body with a content store reference, unless the record
+   * was rewritten in the meantime
+   */
+  async moveContentToStore(id: string, contentRef: string): Promise<boolean> {
+    const result = await this.model
+      .updateOne(
+        { _id: id, content: { $type: 'string' } },
+        { $set: { contentRef }, $unset: { content: 1 } }
+      )
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Members of a batch without their content fields
+   */
+  async findByBatch(
+    batchId: string,
+    status?: FetchStatus,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<UrlFetchRequest[]> {
+    return this.model
+      .find({ batchId: new Types.ObjectId(batchId), ...(status ? { status } : {}) })
+      .select('-content -textContent -markdown -metadata')
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .skip(offset)
+      .exec();
+  }
+
+  async findOpenIdsByBatch(batchId: string): Promise<string[]> {
+    const open = await this.model
+      .find({
+        batchId: new Types.ObjectId(batchId),
+        status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] }
+      }, { _id: 1 })
+      .exec();
+    return open.map(request => request._id.toString());
+  }
+
+  async findOpenIdsByCrawl(crawlId: string): Promise<string[]> {
+    const open = await this.model
+      .find({
+        crawlId: new Types.ObjectId(crawlId),
+        status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] }
+      }, { _id: 1 })
+      .exec();
+    return open.map(request => request._id.toString());
+  }
+
+  async countOpenByBatch(batchId: string): Promise<number> {
+    return this.model
+      .countDocuments({
+        batchId: new Types.ObjectId(batchId),
+        status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] }
+      })
+      .exec();
+  }
+
+  /**
+   * Per-status counts and response time / completion time statistics of a batch
+   */
+  async getBatchStats(batchId: string): Promise<BatchMemberStats> {
+    const [result] = await this.model
+      .aggregate([
+        { $match: { batchId: new Types.ObjectId(batchId) } },
+        {
+          $facet: {
+            counts: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+            timing: [
+              { $match: { fetchedAt: { $ne: null } } },
+              {
+                $group: {
+                  _id: null,
+                  avgResponseTime: { $avg: '$responseTime' },
+                  minResponseTime: { $min: '$responseTime' },
+                  maxResponseTime: { $max: '$responseTime' },
+                  firstFetchedAt: { $min: '$fetchedAt' },
+                  lastFetchedAt: { $max: '$fetchedAt' }
+                }
+              }
+            ]
+          }
+        }
+      ])
+      .exec();
+
+    const timing = result?.timing?.[0] || {};
+
+    return {
+      counts: Object.fromEntries((result?.counts || []).map((entry: any) => [entry._id, entry.count])),
+      avgResponseTime: timing.avgResponseTime != null ? Math.round(timing.avgResponseTime) : null,
+      minResponseTime: timing.minResponseTime ?? null,
+      maxResponseTime: timing.maxResponseTime ?? null,
+      firstFetchedAt: timing.firstFetchedAt ?? null,
+      lastFetchedAt: timing.lastFetchedAt ?? null
+    };
+  }
+
   async getUrlHistory(url: string): Promise<UrlFetchRequest[]> {
     const normalizedUrl = UrlNormalizer.normalize(url);
     const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
@@ -153,6 +570,22 @@ export class UrlFetchRequestRepository {
       .exec();
   }
 
+  /**
+   * Newest request for the URL that is still pending or processing, however old
+   */
+  async findOpenByUrl(url: string): Promise<UrlFetchRequest | null> {
+    const normalizedUrl = UrlNormalizer.normalize(url);
+    const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
+
+    return this.model
+      .findOne({
+        url: { $in: [url, canonicalUrl, normalizedUrl, `https://${normalizedUrl}`, `http://${normalizedUrl}`] },
+        status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] }
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
   /**
    * Find pending requests that are older than the timeout period
    * Useful for cleanup and retry logic
@@ -163,8 +596,32 @@ export class UrlFetchRequestRepository {
     return this.model
       .find({
         status: FetchStatus.PENDING,
-        createdAt: { $lt: cutoffTime }
+        createdAt: { $lt: cutoffTime },
+        // A scheduled retry is only stale once it has been due for the whole timeout
+        $or: [{ nextRetryAt: null }, { nextRetryAt: { $lt: cutoffTime } }]
       })
       .exec();
   }
-}
\ No newline at end of file
+
+  /**
+   * PENDING requests per message priority, split into queued and waiting for a retry delay
+   */
+  async countPendingByPriority(): Promise<PriorityBacklog[]> {
+    const now = new Date();
+    const delayed = { $gt: ['$nextRetryAt', now] };
+
+    const groups = await this.model.aggregate([
+      { $match: { status: FetchStatus.PENDING } },
+      {
+        $group: {
+          _id: '$priority',
+          waiting: { $sum: { $cond: [delayed, 0, 1] } },
+          delayed: { $sum: { $cond: [delayed, 1, 0] } }
+        }
+      },
+      { $sort: { _id: -1 } }
+    ]).exec();
+
+    return groups.map(group => ({ priority: group._id ?? null, waiting: group.waiting, delayed: group.delayed }));
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { WebhookDelivery, WebhookDeliveryDocument, WebhookAttempt } from '../schemas/webhook-delivery.schema';
+import { WebhookDeliveryStatus } from '../interfaces/webhook.interface';
+
+@Injectable()
+export class WebhookDeliveryRepository {
+  constructor(
+    @InjectModel(WebhookDelivery.name)
+    private readonly model: Model<WebhookDeliveryDocument>
+  ) {}
+
+  async create(data: Partial<WebhookDelivery>): Promise<WebhookDeliveryDocument> {
+    const created = new this.model(data);
+    return created.save();
+  }
+
+  async findById(id: string): Promise<WebhookDeliveryDocument | null> {
+    return this.model.findById(id).exec();
+  }
+
+  async findAll(
+    filter: any = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<WebhookDeliveryDocument[]> {
+    return this.model
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip(offset)
+      .exec();
+  }
+
+  /**
+   * Claim a pending delivery that is due, atomically, so that only one
+   * API instance sends it. Passing an id claims that delivery only.
+   */
+  async claimDue(now: Date, lockMs: number, id?: string): Promise<WebhookDeliveryDocument | null> {
+    return this.model
+      .findOneAndUpdate(
+        {
+          ...(id ? { _id: id } : {}),
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { $lte: now },
+          $or: [
+            { lockedUntil: null },
+            { lockedUntil: { $lte: now } }
+          ]
+        },
+        { lockedUntil: new Date(now.getTime() + lockMs) },
+        { new: true, sort: { nextAttemptAt: 1 } }
+      )
+      .exec();
+  }
+
+  /**
+   * Append an attempt to the log, update the delivery state and release the claim
+   */
+  async recordAttempt(id: string, attempt: WebhookAttempt, data: Partial<WebhookDelivery>): Promise<void> {
+    await this.model
+      .updateOne(
+        { _id: id },
+        {
+          $set: data,
+          $push: { attempts: attempt },
+          $inc: { attemptCount: 1 },
+          $unset: { lockedUntil: 1 }
+        }
+      )
+      .exec();
+  }
+
+  /**
+   * Start a new delivery round; the attempt log is kept
+   */
+  async resetForReplay(id: string, now: Date): Promise<WebhookDeliveryDocument | null> {
+    return this.model
+      .findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            status: WebhookDeliveryStatus.PENDING,
+            attemptCount: 0,
+            nextAttemptAt: now
+          },
+          $unset: { lastError: 1, deliveredAt: 1 }
+        },
+        { new: true }
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { BatchStatus } from '../interfaces/batch.interface';
+import { SkippedUrl } from '../dto/submit-urls.dto';
+
+export type BatchDocument = Batch & Document & { _id: any };
+
+@Schema({ timestamps: true })
+export class Batch {
+  @Prop({ type: [Types.ObjectId], default: [] })
+  requestIds: Types.ObjectId[];
+
+  @Prop({
+    type: [raw({
+      url: { type: String },
+      reason: { type: String },
+      lastScrapedAt: { type: Date },
+      nextAvailableAt: { type: Date }
+    })],
+    default: []
+  })
+  skipped: SkippedUrl[];
+
+  @Prop({ type: [String], default: [], index: true })
+  labels: string[];
+
+  @Prop({
+    required: true,
+    enum: Object.values(BatchStatus),
+    default: BatchStatus.SUBMITTING,
+    index: true
+  })
+  status: BatchStatus;
+
+  @Prop()
+  finishedAt?: Date;
+
+  @Prop({ index: true })
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const BatchSchema = SchemaFactory.createForClass(Batch);
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ContentBlobDocument = ContentBlob & Document & { _id: any };
+
+export enum ContentEncoding {
+  GZIP = 'gzip'
+}
+
+/**
+ * One stored page body, shared by every fetch request with the same content hash
+ */
+@Schema({ timestamps: true })
+export class ContentBlob {
+  // sha256 of the uncompressed body (text as UTF-8)
+  @Prop({ required: true, unique: true })
+  hash: string;
+
+  @Prop({ required: true, enum: Object.values(ContentEncoding) })
+  encoding: ContentEncoding;
+
+  @Prop({ type: Buffer, required: true })
+  data: Buffer;
+
+  // Uncompressed and stored sizes in bytes
+  @Prop({ required: true })
+  size: number;
+
+  @Prop({ required: true })
+  compressedSize: number;
+}
+
+export const ContentBlobSchema = SchemaFactory.createForClass(ContentBlob);
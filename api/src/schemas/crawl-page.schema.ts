@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { CrawlPageStatus } from '../interfaces/crawl.interface';
+
+export type CrawlPageDocument = CrawlPage & Document & { _id: any };
+
+@Schema({ timestamps: true })
+export class CrawlPage {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  crawlId: Types.ObjectId;
+
+  // Canonical URL - unique per crawl for crawl-level dedup
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ required: true })
+  depth: number;
+
+  @Prop()
+  parentUrl?: string;
+
+  @Prop({
+    required: true,
+    enum: Object.values(CrawlPageStatus),
+    default: CrawlPageStatus.PENDING
+  })
+  status: CrawlPageStatus;
+
+  @Prop({ type: Types.ObjectId, index: true })
+  fetchRequestId?: Types.ObjectId;
+
+  @Prop()
+  finishedAt?: Date;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const CrawlPageSchema = SchemaFactory.createForClass(CrawlPage);
+
+CrawlPageSchema.index({ crawlId: 1, url: 1 }, { unique: true });
+CrawlPageSchema.index({ crawlId: 1, status: 1 });
+CrawlPageSchema.index({ crawlId: 1, depth: 1, createdAt: 1 });
@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { CrawlScope, CrawlStatus } from '../interfaces/crawl.interface';
+
+export type CrawlDocument = Crawl & Document & { _id: any };
+
+@Schema({ timestamps: true })
+export class Crawl {
+  @Prop({ type: [String], required: true })
+  seedUrls: string[];
+
+  @Prop({ required: true })
+  maxDepth: number;
+
+  @Prop({ required: true })
+  maxPages: number;
+
+  @Prop({
+    required: true,
+    enum: Object.values(CrawlScope),
+    default: CrawlScope.HOST
+  })
+  scope: CrawlScope;
+
+  @Prop({ type: [String], default: [] })
+  includePatterns: string[];
+
+  @Prop({ type: [String], default: [] })
+  excludePatterns: string[];
+
+  @Prop({
+    required: true,
+    enum: Object.values(CrawlStatus),
+    default: CrawlStatus.RUNNING,
+    index: true
+  })
+  status: CrawlStatus;
+
+  // Pages admitted to the crawl, counted against maxPages
+  @Prop({ default: 0 })
+  pagesAdmitted: number;
+
+  @Prop({ default: 0 })
+  pagesSucceeded: number;
+
+  @Prop({ default: 0 })
+  pagesFailed: number;
+
+  @Prop()
+  finishedAt?: Date;
+
+  @Prop({ index: true })
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const CrawlSchema = SchemaFactory.createForClass(Crawl);
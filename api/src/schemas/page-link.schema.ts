@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PageLinkDocument = PageLink & Document & { _id: any };
+
+@Schema({ timestamps: true })
+export class PageLink {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  fetchRequestId: Types.ObjectId;
+
+  // Canonical URL of the page the link was found on
+  @Prop({ required: true, index: true })
+  sourceUrl: string;
+
+  // Absolute href as it appeared on the page
+  @Prop({ required: true })
+  href: string;
+
+  // Canonical form of href, used for backlink lookups
+  @Prop({ required: true, index: true })
+  targetUrl: string;
+
+  @Prop()
+  anchorText?: string;
+
+  @Prop({ type: [String], default: [] })
+  rel: string[];
+
+  @Prop({ required: true, index: true })
+  isInternal: boolean;
+
+  @Prop()
+  discoveredAt?: Date;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const PageLinkSchema = SchemaFactory.createForClass(PageLink);
+
+PageLinkSchema.index({ sourceUrl: 1, isInternal: 1 });
+PageLinkSchema.index({ targetUrl: 1, sourceUrl: 1 });
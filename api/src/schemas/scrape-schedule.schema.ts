@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { FetchStatus } from '../interfaces/scrape.interface';
+import { ScheduleStatus } from '../interfaces/schedule.interface';
+
+export type ScrapeScheduleDocument = ScrapeSchedule & Document & { _id: any };
+
+@Schema({ timestamps: true })
+export class ScrapeSchedule {
+  @Prop({ required: true, index: true })
+  url: string;
+
+  @Prop()
+  name?: string;
+
+  // Exactly one of cronExpression / intervalMinutes is set
+  @Prop()
+  cronExpression?: string;
+
+  @Prop()
+  intervalMinutes?: number;
+
+  // IANA time zone the cron expression is evaluated in (UTC when unset)
+  @Prop()
+  timezone?: string;
+
+  // Passed to every run for change detection
+  @Prop({ type: [String], default: undefined })
+  ignoreSelectors?: string[];
+
+  @Prop({
+    required: true,
+    enum: Object.values(ScheduleStatus),
+    default: ScheduleStatus.ACTIVE,
+    index: true
+  })
+  status: ScheduleStatus;
+
+  @Prop({ index: true })
+  nextRunAt?: Date;
+
+  @Prop()
+  lastRunAt?: Date;
+
+  @Prop({ enum: Object.values(FetchStatus) })
+  lastStatus?: FetchStatus;
+
+  @Prop({ type: Types.ObjectId })
+  lastFetchRequestId?: Types.ObjectId;
+
+  @Prop({ default: 0 })
+  runCount: number;
+
+  // Claim held by the API instance currently firing this schedule
+  @Prop()
+  lockedBy?: string;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const ScrapeScheduleSchema = SchemaFactory.createForClass(ScrapeSchedule);
+
+ScrapeScheduleSchema.index({ status: 1, nextRunAt: 1 });
@@ -1,14 +1,30 @@
-import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
-import { FetchStatus } from '../interfaces/scrape.interface';
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { FetchStatus, PageMetadata, RobotsDirectives, FailureCategory, ChangeStatus, ScrapeOptions, ArtifactKind, RenderMode, ContentKind } from '../interfaces/scrape.interface';
 
 export type UrlFetchRequestDocument = UrlFetchRequest & Document & { _id: any };
 
+// Screenshot or PDF kept in the GridFS artifacts bucket
+export interface ArtifactRef {
+  kind: ArtifactKind;
+  fileId: Types.ObjectId;
+  contentType: string;
+  size: number;
+  capturedAt: Date;
+}
+
 @Schema({ timestamps: true })
 export class UrlFetchRequest {
   @Prop({ required: true, index: true })
   url: string;
 
+  // Hostname without www and its registrable domain, for listing by site
+  @Prop()
+  host?: string;
+
+  @Prop()
+  domain?: string;
+
   @Prop({ 
     required: true, 
     enum: Object.values(FetchStatus),
@@ -17,9 +33,21 @@ export class UrlFetchRequest {
   })
   status: FetchStatus;
 
+  // Inline body of records written before the content store; filled in on read otherwise
   @Prop()
   content?: string;
 
+  // Hash of the body in the content store (ContentBlob)
+  @Prop({ index: true })
+  contentRef?: string;
+
+  // What the response body was; for anything but HTML the bytes as served are kept under rawContentRef
+  @Prop({ enum: Object.values(ContentKind) })
+  contentKind?: ContentKind;
+
+  @Prop()
+  rawContentRef?: string;
+
   @Prop()
   contentType?: string;
 
@@ -29,6 +57,16 @@ export class UrlFetchRequest {
   @Prop()
   errorMessage?: string;
 
+  @Prop({ enum: Object.values(FailureCategory) })
+  failureCategory?: FailureCategory;
+
+  // When a scheduled retry is published again; null while not waiting for one
+  @Prop()
+  nextRetryAt?: Date;
+
+  @Prop()
+  cancelledAt?: Date;
+
   @Prop()
   finalUrl?: string;
 
@@ -41,6 +79,77 @@ export class UrlFetchRequest {
   @Prop()
   contentHash?: string;
 
+  @Prop()
+  textHash?: string;
+
+  @Prop()
+  textContent?: string;
+
+  @Prop()
+  markdown?: string;
+
+  @Prop()
+  wordCount?: number;
+
+  // Newest success of its URL, the only version in the search index; null on older versions
+  @Prop()
+  latest?: boolean;
+
+  @Prop(raw({
+    title: { type: String },
+    description: { type: String },
+    language: { type: String },
+    canonicalUrl: { type: String },
+    openGraph: { type: Object },
+    twitter: { type: Object },
+    jsonLd: { type: [Object] }
+  }))
+  metadata?: PageMetadata;
+
+  @Prop(raw({
+    noindex: { type: Boolean },
+    nofollow: { type: Boolean },
+    noarchive: { type: Boolean }
+  }))
+  robotsDirectives?: RobotsDirectives;
+
+  // CSS selectors of volatile regions left out of change detection
+  @Prop({ type: [String], default: undefined })
+  ignoreSelectors?: string[];
+
+  // Browser settings the page was scraped with, kept for reproducibility
+  @Prop({ type: Object })
+  scrapeOptions?: ScrapeOptions;
+
+  // HTTP or BROWSER; in AUTO mode the reason the browser was needed
+  @Prop({ enum: Object.values(RenderMode) })
+  renderMode?: RenderMode;
+
+  @Prop()
+  renderFallbackReason?: string;
+
+  @Prop({
+    type: [raw({
+      kind: { type: String, enum: Object.values(ArtifactKind) },
+      fileId: { type: Types.ObjectId },
+      contentType: { type: String },
+      size: { type: Number },
+      capturedAt: { type: Date }
+    })],
+    default: undefined
+  })
+  artifacts?: ArtifactRef[];
+
+  // Comparison with the previous successful scrape of the same URL
+  @Prop({ enum: Object.values(ChangeStatus), index: true })
+  changeStatus?: ChangeStatus;
+
+  @Prop()
+  changeRatio?: number;
+
+  @Prop({ type: Types.ObjectId })
+  previousRequestId?: Types.ObjectId;
+
   @Prop()
   userAgent?: string;
 
@@ -50,6 +159,31 @@ export class UrlFetchRequest {
   @Prop({ default: 0 })
   retryCount: number;
 
+  // Message priority the request was last queued with (see QueuePriority)
+  @Prop()
+  priority?: number;
+
+  // dispatchId of the message the request was last queued with; reports for other messages are ignored
+  @Prop()
+  dispatchId?: string;
+
+  @Prop({ type: Types.ObjectId, index: true })
+  crawlId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, index: true })
+  scheduleId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, index: true })
+  batchId?: Types.ObjectId;
+
+  // Notified when the request reaches a terminal state
+  @Prop()
+  callbackUrl?: string;
+
+  // HMAC key for the callback signature, never returned by queries
+  @Prop({ select: false })
+  callbackSecret?: string;
+
   @Prop({ index: true })
   fetchedAt?: Date;
 
@@ -66,6 +200,27 @@ export class UrlFetchRequest {
 export const UrlFetchRequestSchema = SchemaFactory.createForClass(UrlFetchRequest);
 
 UrlFetchRequestSchema.index({ url: 1, status: 1 });
-UrlFetchRequestSchema.index({ fetchedAt: -1 });
 UrlFetchRequestSchema.index({ httpStatus: 1, status: 1 });
+UrlFetchRequestSchema.index({ status: 1, priority: -1 }); // Pending requests per priority
 UrlFetchRequestSchema.index({ 'redirectChain': 1 }); // Index redirect chain for efficiency
+UrlFetchRequestSchema.index({ 'metadata.title': 1 });
+UrlFetchRequestSchema.index({ 'metadata.canonicalUrl': 1 });
+// Results listing: each sort with _id as tie-breaker for cursors, alone and after the common filters
+UrlFetchRequestSchema.index({ createdAt: -1, _id: -1 });
+UrlFetchRequestSchema.index({ fetchedAt: -1, _id: -1 });
+UrlFetchRequestSchema.index({ responseTime: -1, _id: -1 });
+UrlFetchRequestSchema.index({ httpStatus: -1, _id: -1 });
+UrlFetchRequestSchema.index({ status: 1, createdAt: -1, _id: -1 });
+UrlFetchRequestSchema.index({ status: 1, fetchedAt: -1, _id: -1 });
+UrlFetchRequestSchema.index({ host: 1, createdAt: -1, _id: -1 });
+UrlFetchRequestSchema.index({ domain: 1, createdAt: -1, _id: -1 });
+// Full-text search over the latest success per URL; pages come in many languages, so no stemming
+UrlFetchRequestSchema.index(
+  { 'metadata.title': 'text', 'metadata.description': 'text', textContent: 'text' },
+  {
+    name: 'content_search',
+    weights: { 'metadata.title': 10, 'metadata.description': 4, textContent: 1 },
+    default_language: 'none',
+    partialFilterExpression: { latest: true }
+  }
+);
@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WebhookDeliveryStatus, WebhookEvent, WebhookPayload } from '../interfaces/webhook.interface';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document & { _id: any };
+
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  httpStatus?: number;
+  durationMs: number;
+  error?: string;
+  responseBody?: string;
+}
+
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  fetchRequestId: Types.ObjectId;
+
+  @Prop({ required: true })
+  callbackUrl: string;
+
+  @Prop({ required: true, enum: Object.values(WebhookEvent) })
+  event: WebhookEvent;
+
+  // Body is frozen when the delivery is created so retries and replays send the same payload
+  @Prop({ type: Object, required: true })
+  payload: WebhookPayload;
+
+  @Prop({
+    required: true,
+    enum: Object.values(WebhookDeliveryStatus),
+    default: WebhookDeliveryStatus.PENDING,
+    index: true
+  })
+  status: WebhookDeliveryStatus;
+
+  // Attempts in the current delivery round, reset by a replay
+  @Prop({ default: 0 })
+  attemptCount: number;
+
+  @Prop({
+    type: [raw({
+      attemptedAt: { type: Date },
+      httpStatus: { type: Number },
+      durationMs: { type: Number },
+      error: { type: String },
+      responseBody: { type: String }
+    })],
+    default: []
+  })
+  attempts: WebhookAttempt[];
+
+  @Prop()
+  nextAttemptAt?: Date;
+
+  @Prop()
+  deliveredAt?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  // Claim held by the API instance currently sending this delivery
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop({ index: true })
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const WebhookDeliverySchema = SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Types, mongo } from 'mongoose';
+import { ArtifactKind, ScrapeArtifact } from '../interfaces/scrape.interface';
+import { ArtifactRepository } from '../repositories/artifact.repository';
+import { ArtifactRef, UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+
+export interface ArtifactDownload {
+  ref: ArtifactRef;
+  stream: mongo.GridFSBucketReadStream;
+}
+
+@Injectable()
+export class ArtifactService {
+  private readonly logger = new Logger(ArtifactService.name);
+
+  constructor(private readonly repository: ArtifactRepository) {}
+
+  /**
+   * Move the captures of a result into GridFS and return the links to keep on
+   * the record. Older captures of the same kind are deleted. A capture that
+   * fails to store is dropped; the scrape itself still counts as a success.
+   */
+  async store(record: UrlFetchRequest, artifacts: ScrapeArtifact[]): Promise<ArtifactRef[]> {
+    const requestId = (record as any)._id.toString();
+    const refs: ArtifactRef[] = [];
+
+    for (const artifact of artifacts) {
+      try {
+        const data = Buffer.from(artifact.data, 'base64');
+        const fileId = await this.repository.upload(
+          `${requestId}-${artifact.kind}`,
+          data,
+          artifact.contentType,
+          { fetchRequestId: requestId, kind: artifact.kind, url: record.url }
+        );
+
+        refs.push({
+          kind: artifact.kind,
+          fileId,
+          contentType: artifact.contentType,
+          size: data.length,
+          capturedAt: new Date()
+        });
+      } catch (error) {
+        this.logger.error(`Error storing ${artifact.kind} for request ${requestId}:`, error);
+      }
+    }
+
+    const previous = record.artifacts || [];
+    const replaced = previous.filter(old => refs.some(ref => ref.kind === old.kind));
+    await this.remove(replaced);
+
+    return [...previous.filter(old => !replaced.includes(old)), ...refs];
+  }
+
+  async remove(refs: ArtifactRef[]): Promise<void> {
+    for (const ref of refs) {
+      try {
+        await this.repository.delete(ref.fileId);
+      } catch (error) {
+        this.logger.warn(`Could not delete artifact ${ref.fileId}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Stream of the record's capture of the given kind, or null when there is none
+   */
+  async open(record: UrlFetchRequest, kind: ArtifactKind): Promise<ArtifactDownload | null> {
+    const ref = record.artifacts?.find(artifact => artifact.kind === kind);
+    if (!ref || !(await this.repository.findFile(new Types.ObjectId(ref.fileId)))) {
+      return null;
+    }
+
+    return { ref, stream: this.repository.openDownloadStream(new Types.ObjectId(ref.fileId)) };
+  }
+}
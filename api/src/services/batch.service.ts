@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { FetchStatus } from '../interfaces/scrape.interface';
+import { BatchStatus } from '../interfaces/batch.interface';
+import { BatchRepository } from '../repositories/batch.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { BatchDocument } from '../schemas/batch.schema';
+import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+import { SkippedUrl } from '../dto/submit-urls.dto';
+
+export interface BatchProgress {
+  total: number;
+  counts: Record<FetchStatus, number>;
+  percentComplete: number;
+  timing: {
+    durationMs: number;
+    avgResponseTime: number | null;
+    minResponseTime: number | null;
+    maxResponseTime: number | null;
+    firstFetchedAt: Date | null;
+    lastFetchedAt: Date | null;
+  };
+}
+
+@Injectable()
+export class BatchService {
+  private readonly logger = new Logger(BatchService.name);
+
+  constructor(
+    private readonly repository: BatchRepository,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository
+  ) {}
+
+  /**
+   * Open a batch before its members are created, so every member can carry its batchId
+   */
+  async openBatch(labels: string[] = []): Promise<BatchDocument> {
+    return this.repository.create({ labels, status: BatchStatus.SUBMITTING });
+  }
+
+  /**
+   * Record the outcome of the submission. Members may already have finished while
+   * the batch was being submitted, so completion is checked right away.
+   */
+  async sealBatch(id: string, requestIds: string[], skipped: SkippedUrl[]): Promise<void> {
+    await this.repository.transition(id, BatchStatus.SUBMITTING, BatchStatus.RUNNING, {
+      requestIds: requestIds.map(requestId => new Types.ObjectId(requestId)),
+      skipped
+    });
+    await this.checkCompletion(id);
+  }
+
+  async getBatch(id: string): Promise<BatchDocument | null> {
+    return this.repository.findById(id);
+  }
+
+  async getMembers(id: string, status?: FetchStatus, limit: number = 50, offset: number = 0): Promise<UrlFetchRequest[]> {
+    return this.fetchRequestRepository.findByBatch(id, status, limit, offset);
+  }
+
+  async getProgress(batch: BatchDocument): Promise<BatchProgress> {
+    const stats = await this.fetchRequestRepository.getBatchStats(batch._id.toString());
+
+    const counts = Object.values(FetchStatus).reduce(
+      (all, status) => ({ ...all, [status]: stats.counts[status] || 0 }),
+      {} as Record<FetchStatus, number>
+    );
+    const total = batch.requestIds.length;
+    const finished = counts[FetchStatus.SUCCESS] + counts[FetchStatus.FAILED] + counts[FetchStatus.CANCELLED];
+    const end = batch.finishedAt || new Date();
+
+    return {
+      total,
+      counts,
+      percentComplete: total ? Math.round((finished / total) * 100) : 100,
+      timing: {
+        durationMs: end.getTime() - batch.createdAt.getTime(),
+        avgResponseTime: stats.avgResponseTime,
+        minResponseTime: stats.minResponseTime,
+        maxResponseTime: stats.maxResponseTime,
+        firstFetchedAt: stats.firstFetchedAt,
+        lastFetchedAt: stats.lastFetchedAt
+      }
+    };
+  }
+
+  /**
+   * Called once a batch member reaches a terminal state
+   */
+  async handleMemberFinished(batchId: string): Promise<void> {
+    try {
+      await this.checkCompletion(batchId);
+    } catch (error) {
+      this.logger.error(`Error checking completion of batch ${batchId}:`, error);
+    }
+  }
+
+  private async checkCompletion(id: string): Promise<void> {
+    const open = await this.fetchRequestRepository.countOpenByBatch(id);
+    if (open > 0) {
+      return;
+    }
+
+    const finished = await this.repository.transition(id, BatchStatus.RUNNING, BatchStatus.FINISHED, {
+      finishedAt: new Date()
+    });
+    if (finished) {
+      this.logger.log(`Batch ${id} finished (${finished.requestIds.length} requests)`);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ScrapeResult, ChangeStatus } from '../interfaces/scrape.interface';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+import { TextDiff, TextDiffSummary } from '../utils/text-diff.util';
+
+export type DiffField = 'text' | 'markdown' | 'html';
+
+export interface ScrapeDiff extends TextDiffSummary {
+  diff: string;
+}
+
+@Injectable()
+export class ChangeDetectionService {
+  private readonly logger = new Logger(ChangeDetectionService.name);
+
+  constructor(private readonly repository: UrlFetchRequestRepository) {}
+
+  /**
+   * Compare a successful result with the previous success for the same URL
+   * - Identical HTML, or identical visible text outside the ignored regions: UNCHANGED
+   * - Otherwise CHANGED, with the line change ratio of the main-content text
+   * Best effort: a failure here leaves the record without a change status.
+   */
+  async detectChange(record: UrlFetchRequest, result: ScrapeResult): Promise<Partial<UrlFetchRequest>> {
+    try {
+      const previous = await this.repository.findPreviousSuccess(record.url, result.scrapedAt, result.id);
+      if (!previous) {
+        return { changeStatus: ChangeStatus.NEW, changeRatio: null, previousRequestId: null };
+      }
+
+      const previousRequestId = (previous as any)._id;
+
+      const sameHtml = !!result.contentHash && previous.contentHash === result.contentHash;
+      const sameText = !!result.textHash && previous.textHash === result.textHash &&
+        this.sameSelectors(previous.ignoreSelectors, record.ignoreSelectors);
+
+      if (sameHtml || sameText) {
+        return { changeStatus: ChangeStatus.UNCHANGED, changeRatio: 0, previousRequestId };
+      }
+
+      const summary = TextDiff.summarize(previous.textContent || '', result.textContent || '');
+
+      return {
+        changeStatus: ChangeStatus.CHANGED,
+        changeRatio: summary ? summary.changeRatio : 1,
+        previousRequestId
+      };
+    } catch (error) {
+      this.logger.error(`Error detecting changes for ${record.url}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Unified diff between two scrapes, older one first; null when the
+   * versions are too far apart to diff
+   */
+  diff(from: UrlFetchRequest, to: UrlFetchRequest, field: DiffField = 'text'): ScrapeDiff | null {
+    const [older, newer] = this.byFetchTime(from, to);
+    const before = this.fieldValue(older, field);
+    const after = this.fieldValue(newer, field);
+
+    const summary = TextDiff.summarize(before, after);
+    if (!summary) {
+      return null;
+    }
+
+    return {
+      ...summary,
+      diff: TextDiff.unified(
+        before,
+        after,
+        `${(older as any)._id} (${older.fetchedAt?.toISOString()})`,
+        `${(newer as any)._id} (${newer.fetchedAt?.toISOString()})`
+      )
+    };
+  }
+
+  byFetchTime(a: UrlFetchRequest, b: UrlFetchRequest): [UrlFetchRequest, UrlFetchRequest] {
+    const timeOf = (record: UrlFetchRequest) => (record.fetchedAt || record.createdAt)?.getTime() || 0;
+    return timeOf(a) <= timeOf(b) ? [a, b] : [b, a];
+  }
+
+  private fieldValue(record: UrlFetchRequest, field: DiffField): string {
+    switch (field) {
+      case 'markdown':
+        return record.markdown || '';
+      case 'html':
+        return record.content || '';
+      default:
+        return record.textContent || '';
+    }
+  }
+
+  private sameSelectors(a: string[] = [], b: string[] = []): boolean {
+    return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+  }
+}
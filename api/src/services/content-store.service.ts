@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { ContentBlobRepository } from '../repositories/content-blob.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { ContentEncoding } from '../schemas/content-blob.schema';
+import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface ContentMigrationResult {
+  migrated: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Page bodies stored once per unique content hash, gzip compressed.
+ * Fetch requests keep only `contentRef`; `hydrate` puts the body back on read.
+ */
+@Injectable()
+export class ContentStoreService {
+  private readonly logger = new Logger(ContentStoreService.name);
+
+  constructor(
+    private readonly repository: ContentBlobRepository,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository
+  ) {}
+
+  /**
+   * Store a body (text as UTF-8, or raw bytes) unless it is already known and return its hash
+   */
+  async put(content: string | Buffer): Promise<string> {
+    const raw = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const hash = createHash('sha256').update(raw).digest('hex');
+
+    if (await this.repository.exists(hash)) {
+      return hash;
+    }
+
+    const data = await gzipAsync(raw);
+    const created = await this.repository.createIfAbsent({
+      hash,
+      encoding: ContentEncoding.GZIP,
+      data,
+      size: raw.length,
+      compressedSize: data.length
+    });
+
+    if (created) {
+      this.logger.debug(`Stored content ${hash.substring(0, 12)}: ${raw.length} → ${data.length} bytes`);
+    }
+
+    return hash;
+  }
+
+  async getBytes(hash: string): Promise<Buffer | null> {
+    const [blob] = await this.repository.findByHashes([hash]);
+    return blob ? gunzipAsync(blob.data) : null;
+  }
+
+  /**
+   * Fill in `content` on records that reference the store. Records with
+   * inline content (not yet migrated) are left as they are.
+   */
+  async hydrate<T extends UrlFetchRequest>(records: T[]): Promise<T[]> {
+    const pending = records.filter(record => record && !record.content && record.contentRef);
+    if (!pending.length) {
+      return records;
+    }
+
+    const blobs = await this.repository.findByHashes([...new Set(pending.map(record => record.contentRef))]);
+    const bodies = new Map<string, string>();
+    for (const blob of blobs) {
+      bodies.set(blob.hash, (await gunzipAsync(blob.data)).toString('utf8'));
+    }
+
+    for (const record of pending) {
+      const body = bodies.get(record.contentRef);
+      if (body === undefined) {
+        this.logger.warn(`Content ${record.contentRef} of request ${(record as any)._id} is missing from the store`);
+        continue;
+      }
+      record.content = body;
+    }
+
+    return records;
+  }
+
+  async hydrateOne<T extends UrlFetchRequest>(record: T | null): Promise<T | null> {
+    if (!record) {
+      return record;
+    }
+
+    const [hydrated] = await this.hydrate([record]);
+    return hydrated;
+  }
+
+  /**
+   * Move inline content of up to `limit` older records into the store.
+   * Safe to run repeatedly and while scrapes are being written.
+   */
+  async migrateInlineContent(limit: number): Promise<ContentMigrationResult> {
+    const records = await this.fetchRequestRepository.findWithInlineContent(limit);
+    let migrated = 0;
+    let failed = 0;
+
+    for (const record of records) {
+      const id = (record as any)._id.toString();
+      try {
+        const contentRef = await this.put(record.content);
+        if (await this.fetchRequestRepository.moveContentToStore(id, contentRef)) {
+          migrated++;
+        }
+      } catch (error) {
+        failed++;
+        this.logger.error(`Error migrating content of request ${id}:`, error);
+      }
+    }
+
+    const remaining = await this.fetchRequestRepository.countWithInlineContent();
+    this.logger.log(`Migrated inline content of ${migrated} requests (${failed} failed, ${remaining} remaining)`);
+
+    return { migrated, failed, remaining };
+  }
+}
@@ -0,0 +1,77 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CrawlService } from './crawl.service';
+import { JobEventsService } from './job-events.service';
+import { CrawlRepository } from '../repositories/crawl.repository';
+import { CrawlPageRepository } from '../repositories/crawl-page.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { CrawlPageStatus, CrawlStatus } from '../interfaces/crawl.interface';
+import { ControlAction, ExchangeNames, FetchStatus } from '../interfaces/scrape.interface';
+
+describe('CrawlService', () => {
+  const CRAWL_ID = '686ec1e200c2137ab7d5c276';
+
+  let service: CrawlService;
+  let crawlRepository: Record<string, jest.Mock>;
+  let crawlPageRepository: Record<string, jest.Mock>;
+  let fetchRequestRepository: Record<string, jest.Mock>;
+  let rabbitMQClient: Record<string, jest.Mock>;
+  let jobEventsService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    crawlRepository = { transition: jest.fn() };
+    crawlPageRepository = {
+      cancelPending: jest.fn(async () => 0),
+      findByFetchRequestId: jest.fn(async (requestId: string) => ({ _id: `page-${requestId}` })),
+      finishQueued: jest.fn()
+    };
+    fetchRequestRepository = { findOpenIdsByCrawl: jest.fn(), cancel: jest.fn() };
+    rabbitMQClient = { broadcast: jest.fn() };
+    jobEventsService = { publish: jest.fn() };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        CrawlService,
+        { provide: CrawlRepository, useValue: crawlRepository },
+        { provide: CrawlPageRepository, useValue: crawlPageRepository },
+        { provide: UrlFetchRequestRepository, useValue: fetchRequestRepository },
+        { provide: RabbitMQUtil, useValue: rabbitMQClient },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: JobEventsService, useValue: jobEventsService }
+      ]
+    }).compile();
+
+    service = module.get(CrawlService);
+  });
+
+  describe('cancelCrawl', () => {
+    it('cancels the fetch requests of queued pages and tells the scrapers', async () => {
+      crawlRepository.transition.mockResolvedValue({ _id: CRAWL_ID, status: CrawlStatus.CANCELLED });
+      fetchRequestRepository.findOpenIdsByCrawl.mockResolvedValue(['queued', 'finished-meanwhile']);
+      fetchRequestRepository.cancel.mockImplementation(async (id: string) =>
+        id === 'queued' ? { _id: id, url: 'https://example.com/', status: FetchStatus.CANCELLED, retryCount: 0 } : null
+      );
+
+      await service.cancelCrawl(CRAWL_ID);
+
+      expect(crawlPageRepository.cancelPending).toHaveBeenCalledWith(CRAWL_ID);
+      expect(crawlPageRepository.finishQueued).toHaveBeenCalledTimes(1);
+      expect(crawlPageRepository.finishQueued).toHaveBeenCalledWith('page-queued', CrawlPageStatus.CANCELLED);
+      expect(jobEventsService.publish).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'queued', status: FetchStatus.CANCELLED }));
+      expect(rabbitMQClient.broadcast).toHaveBeenCalledWith(
+        ExchangeNames.SCRAPER_CONTROL,
+        expect.objectContaining({ action: ControlAction.CANCEL, requestIds: ['queued'] })
+      );
+    });
+
+    it('leaves fetch requests alone when the crawl had already finished', async () => {
+      crawlRepository.transition.mockResolvedValue(null);
+
+      expect(await service.cancelCrawl(CRAWL_ID)).toBeNull();
+
+      expect(fetchRequestRepository.findOpenIdsByCrawl).not.toHaveBeenCalled();
+      expect(rabbitMQClient.broadcast).not.toHaveBeenCalled();
+    });
+  });
+});
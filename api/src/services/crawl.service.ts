@@ -0,0 +1,387 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import {
+  QueueNames,
+  ScrapeRequest,
+  OutboundLink,
+  FetchStatus,
+  ExchangeNames,
+  ControlAction,
+  ScraperControlMessage
+} from '../interfaces/scrape.interface';
+import { CrawlPageStatus, CrawlScope, CrawlStatus } from '../interfaces/crawl.interface';
+import { CrawlRepository } from '../repositories/crawl.repository';
+import { CrawlPageRepository } from '../repositories/crawl-page.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { Crawl, CrawlDocument } from '../schemas/crawl.schema';
+import { CrawlPage, CrawlPageDocument } from '../schemas/crawl-page.schema';
+import { CreateCrawlDto } from '../dto/create-crawl.dto';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+import { PathPattern } from '../utils/path-pattern.util';
+import { QueuePriority } from '../utils/queue-priority.util';
+import { Dispatch } from '../utils/dispatch.util';
+import { JobEventsService } from './job-events.service';
+
+export interface CrawlProgress {
+  discovered: number;
+  pending: number;
+  queued: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  percentComplete: number;
+}
+
+@Injectable()
+export class CrawlService {
+  private readonly logger = new Logger(CrawlService.name);
+  private readonly defaultMaxDepth: number;
+  private readonly defaultMaxPages: number;
+
+  constructor(
+    private readonly crawlRepository: CrawlRepository,
+    private readonly crawlPageRepository: CrawlPageRepository,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository,
+    private readonly rabbitMQClient: RabbitMQUtil,
+    private readonly configService: ConfigService,
+    private readonly jobEventsService: JobEventsService
+  ) {
+    this.defaultMaxDepth = this.configService.get<number>('CRAWL_DEFAULT_MAX_DEPTH', 2);
+    this.defaultMaxPages = this.configService.get<number>('CRAWL_DEFAULT_MAX_PAGES', 100);
+  }
+
+  async createCrawl(dto: CreateCrawlDto): Promise<CrawlDocument> {
+    const seedUrls = Array.from(new Set(dto.seedUrls.map(url => UrlNormalizer.getCanonicalUrl(url))));
+
+    const crawl = await this.crawlRepository.create({
+      seedUrls,
+      maxDepth: dto.maxDepth ?? this.defaultMaxDepth,
+      maxPages: dto.maxPages ?? this.defaultMaxPages,
+      scope: dto.scope ?? CrawlScope.HOST,
+      includePatterns: dto.includePatterns || [],
+      excludePatterns: dto.excludePatterns || [],
+      status: CrawlStatus.RUNNING
+    });
+
+    for (const seedUrl of seedUrls) {
+      await this.admitPage(crawl, seedUrl, 0);
+    }
+
+    this.logger.log(`Started crawl ${crawl._id} from ${seedUrls.length} seed URLs (depth: ${crawl.maxDepth}, pages: ${crawl.maxPages})`);
+    // Every seed may have failed to queue
+    await this.checkCompletion(crawl._id.toString());
+
+    return this.crawlRepository.findById(crawl._id.toString());
+  }
+
+  async getCrawl(id: string): Promise<CrawlDocument | null> {
+    return this.crawlRepository.findById(id);
+  }
+
+  async getCrawls(limit: number = 50, offset: number = 0): Promise<Crawl[]> {
+    return this.crawlRepository.findAll(limit, offset);
+  }
+
+  async getProgress(id: string): Promise<CrawlProgress> {
+    const counts = await this.crawlPageRepository.countByStatus(id);
+
+    const pending = counts[CrawlPageStatus.PENDING] || 0;
+    const queued = counts[CrawlPageStatus.QUEUED] || 0;
+    const succeeded = counts[CrawlPageStatus.SUCCESS] || 0;
+    const failed = counts[CrawlPageStatus.FAILED] || 0;
+    const cancelled = counts[CrawlPageStatus.CANCELLED] || 0;
+    const discovered = pending + queued + succeeded + failed + cancelled;
+
+    return {
+      discovered,
+      pending,
+      queued,
+      succeeded,
+      failed,
+      cancelled,
+      percentComplete: discovered ? Math.round(((succeeded + failed + cancelled) / discovered) * 100) : 0
+    };
+  }
+
+  async getPages(
+    id: string,
+    status?: CrawlPageStatus,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<CrawlPage[]> {
+    return this.crawlPageRepository.findByCrawl(id, status, limit, offset);
+  }
+
+  /**
+   * Pausing stops new pages from being queued; pages already in the queue still finish
+   * and the links they discover are kept as PENDING until the crawl is resumed
+   */
+  async pauseCrawl(id: string): Promise<CrawlDocument | null> {
+    const crawl = await this.crawlRepository.transition(id, [CrawlStatus.RUNNING], CrawlStatus.PAUSED);
+    if (crawl) {
+      this.logger.log(`Paused crawl ${id}`);
+    }
+    return crawl;
+  }
+
+  async resumeCrawl(id: string): Promise<CrawlDocument | null> {
+    const crawl = await this.crawlRepository.transition(id, [CrawlStatus.PAUSED], CrawlStatus.RUNNING);
+    if (!crawl) {
+      return null;
+    }
+
+    const pending = await this.crawlPageRepository.findPending(id);
+    for (const page of pending) {
+      await this.enqueuePage(crawl, page);
+    }
+
+    this.logger.log(`Resumed crawl ${id}, queued ${pending.length} pending pages`);
+    await this.checkCompletion(id);
+
+    return this.crawlRepository.findById(id);
+  }
+
+  /**
+   * Cancelling drops pages that are not queued yet; results of pages already
+   * in flight are still recorded but no longer expand the crawl
+   */
+  async cancelCrawl(id: string): Promise<CrawlDocument | null> {
+    const crawl = await this.crawlRepository.transition(
+      id,
+      [CrawlStatus.RUNNING, CrawlStatus.PAUSED],
+      CrawlStatus.CANCELLED,
+      { finishedAt: new Date() }
+    );
+    if (!crawl) {
+      return null;
+    }
+
+    const dropped = await this.crawlPageRepository.cancelPending(id);
+    const cancelled = await this.cancelQueuedPages(id);
+    this.logger.log(`Cancelled crawl ${id} (${dropped} pending pages dropped, ${cancelled} queued fetches cancelled)`);
+
+    return crawl;
+  }
+
+  /**
+   * Cancel the fetch requests of pages already queued so scrapers stop working for the crawl.
+   * Requests that finish first are left to handlePageFinished.
+   */
+  private async cancelQueuedPages(crawlId: string): Promise<number> {
+    const cancelled: string[] = [];
+    for (const requestId of await this.fetchRequestRepository.findOpenIdsByCrawl(crawlId)) {
+      const record = await this.fetchRequestRepository.cancel(requestId);
+      if (!record) {
+        continue;
+      }
+      cancelled.push(requestId);
+
+      const page = await this.crawlPageRepository.findByFetchRequestId(requestId);
+      if (page) {
+        await this.crawlPageRepository.finishQueued(page._id.toString(), CrawlPageStatus.CANCELLED);
+      }
+      await this.jobEventsService.publish({
+        requestId,
+        url: record.url,
+        status: FetchStatus.CANCELLED,
+        retryCount: record.retryCount
+      });
+    }
+
+    if (cancelled.length) {
+      try {
+        await this.rabbitMQClient.broadcast<ScraperControlMessage>(ExchangeNames.SCRAPER_CONTROL, {
+          action: ControlAction.CANCEL,
+          requestIds: cancelled,
+          sentAt: new Date().toISOString()
+        });
+      } catch (error) {
+        this.logger.warn(`Crawl ${crawlId}: failed to notify scrapers of cancelled requests: ${error.message}`);
+      }
+    }
+
+    return cancelled.length;
+  }
+
+  /**
+   * Called when a crawl page's fetch request is cancelled on its own; the crawl carries on
+   */
+  async handlePageCancelled(fetchRequestId: string): Promise<void> {
+    try {
+      const page = await this.crawlPageRepository.findByFetchRequestId(fetchRequestId);
+      if (!page || page.status !== CrawlPageStatus.QUEUED) {
+        return;
+      }
+
+      await this.crawlPageRepository.update(page._id.toString(), {
+        status: CrawlPageStatus.CANCELLED,
+        finishedAt: new Date()
+      });
+      await this.checkCompletion(page.crawlId.toString());
+    } catch (error) {
+      this.logger.error(`Error handling cancelled crawl page for request ${fetchRequestId}:`, error);
+    }
+  }
+
+  /**
+   * Called once a crawl page's fetch request reaches a terminal state.
+   * Successful pages expand the crawl with the links they discovered. The page stays
+   * QUEUED, and so counted as open, until its links are admitted; otherwise a concurrent
+   * completion check could end the crawl before the new pages exist.
+   */
+  async handlePageFinished(fetchRequestId: string, success: boolean, links: OutboundLink[] = []): Promise<void> {
+    try {
+      const page = await this.crawlPageRepository.findByFetchRequestId(fetchRequestId);
+      if (!page || page.status !== CrawlPageStatus.QUEUED) {
+        return;
+      }
+
+      const crawlId = page.crawlId.toString();
+      const crawl = await this.crawlRepository.findById(crawlId);
+      if (!crawl) {
+        return;
+      }
+
+      const expanding = [CrawlStatus.RUNNING, CrawlStatus.PAUSED].includes(crawl.status);
+      if (success && expanding && page.depth < crawl.maxDepth) {
+        let admitted = 0;
+
+        for (const link of links) {
+          if (crawl.pagesAdmitted >= crawl.maxPages) {
+            break;
+          }
+
+          const url = UrlNormalizer.getCanonicalUrl(link.href);
+          if (!this.isInScope(crawl, url)) {
+            continue;
+          }
+
+          if (await this.admitPage(crawl, url, page.depth + 1, page.url)) {
+            crawl.pagesAdmitted++;
+            admitted++;
+          }
+        }
+
+        this.logger.log(`Crawl ${crawlId}: ${page.url} (depth ${page.depth}) added ${admitted} new pages`);
+      }
+
+      const finished = await this.crawlPageRepository.finishQueued(
+        page._id.toString(),
+        success ? CrawlPageStatus.SUCCESS : CrawlPageStatus.FAILED
+      );
+      if (finished) {
+        await this.crawlRepository.incrementCounters(crawlId, success ? { pagesSucceeded: 1 } : { pagesFailed: 1 });
+      }
+
+      await this.checkCompletion(crawlId);
+    } catch (error) {
+      this.logger.error(`Error handling crawl page result for request ${fetchRequestId}:`, error);
+    }
+  }
+
+  private isInScope(crawl: Crawl, url: string): boolean {
+    const matchesScope = crawl.seedUrls.some(seedUrl => crawl.scope === CrawlScope.DOMAIN
+      ? UrlNormalizer.getRegistrableDomain(seedUrl) === UrlNormalizer.getRegistrableDomain(url)
+      : UrlNormalizer.getHostname(seedUrl) === UrlNormalizer.getHostname(url)
+    );
+
+    return matchesScope && PathPattern.isAllowed(url, crawl.includePatterns, crawl.excludePatterns);
+  }
+
+  /**
+   * Add a URL to the crawl unless it is already known or the page budget is spent.
+   * Dedup comes from the unique (crawlId, url) index, the budget from an atomic counter.
+   */
+  private async admitPage(crawl: CrawlDocument, url: string, depth: number, parentUrl?: string): Promise<boolean> {
+    const crawlId = crawl._id.toString();
+
+    const page = await this.crawlPageRepository.createIfAbsent({
+      crawlId: new Types.ObjectId(crawlId),
+      url,
+      depth,
+      parentUrl,
+      status: CrawlPageStatus.PENDING
+    });
+    if (!page) {
+      return false;
+    }
+
+    if (!(await this.crawlRepository.reservePageSlot(crawlId))) {
+      await this.crawlPageRepository.delete(page._id.toString());
+      return false;
+    }
+
+    if (crawl.status === CrawlStatus.RUNNING) {
+      await this.enqueuePage(crawl, page);
+    }
+
+    return true;
+  }
+
+  /**
+   * A page that cannot be queued is failed right away, so the crawl can still complete
+   */
+  private async enqueuePage(crawl: CrawlDocument, page: CrawlPageDocument): Promise<void> {
+    let requestId: string | undefined;
+
+    try {
+      const dispatchId = Dispatch.newId();
+      const request = await this.fetchRequestRepository.create({
+        url: page.url,
+        status: FetchStatus.PENDING,
+        retryCount: 0,
+        priority: QueuePriority.CRAWL,
+        dispatchId,
+        crawlId: crawl._id
+      });
+      requestId = (request as any)._id.toString();
+
+      const scrapeRequest: ScrapeRequest = {
+        id: requestId,
+        url: page.url,
+        dispatchId,
+        retryCount: 0,
+        priority: QueuePriority.CRAWL
+      };
+
+      await this.crawlPageRepository.update(page._id.toString(), {
+        status: CrawlPageStatus.QUEUED,
+        fetchRequestId: (request as any)._id
+      });
+      await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest, { priority: QueuePriority.CRAWL });
+    } catch (error) {
+      this.logger.error(`Crawl ${crawl._id}: could not queue ${page.url}: ${error.message}`);
+
+      await this.crawlPageRepository.update(page._id.toString(), {
+        status: CrawlPageStatus.FAILED,
+        finishedAt: new Date()
+      });
+      await this.crawlRepository.incrementCounters(crawl._id.toString(), { pagesFailed: 1 });
+      if (requestId) {
+        await this.fetchRequestRepository.update(requestId, {
+          status: FetchStatus.FAILED,
+          errorMessage: `Could not be queued: ${error.message}`
+        });
+      }
+    }
+  }
+
+  private async checkCompletion(crawlId: string): Promise<void> {
+    const open = await this.crawlPageRepository.countOpen(crawlId);
+    if (open > 0) {
+      return;
+    }
+
+    const completed = await this.crawlRepository.transition(
+      crawlId,
+      [CrawlStatus.RUNNING],
+      CrawlStatus.COMPLETED,
+      { finishedAt: new Date() }
+    );
+    if (completed) {
+      this.logger.log(`Crawl ${crawlId} completed: ${completed.pagesSucceeded} succeeded, ${completed.pagesFailed} failed`);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { QueueNames, ScrapeRequest } from '../interfaces/scrape.interface';
+import {
+  DeadLetterMessage,
+  DeadLetterQueueStats,
+  DeadLetterReplayResult
+} from '../interfaces/dead-letter.interface';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { DeadLetterHeaders } from '../utils/dead-letter.util';
+import { Dispatch } from '../utils/dispatch.util';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+
+/**
+ * Inspection, replay and purge of the <queue>.dead queues
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+
+  // Messages held at once while looking for a single one to replay
+  private static readonly MAX_SCAN = 1000;
+
+  constructor(
+    private readonly rabbitMQClient: RabbitMQUtil,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository
+  ) {}
+
+  async getStats(): Promise<DeadLetterQueueStats[]> {
+    return Promise.all(Object.values(QueueNames).map(async queue => {
+      const deadLetterQueue = RabbitMQUtil.deadLetterQueue(queue);
+      const { messageCount } = await this.rabbitMQClient.getQueueInfo(deadLetterQueue);
+      return { queue, deadLetterQueue, messageCount };
+    }));
+  }
+
+  /**
+   * Oldest dead letters first; they stay in the queue
+   */
+  async list(queue: QueueNames, limit: number, includePayload: boolean): Promise<DeadLetterMessage[]> {
+    let messages: DeadLetterMessage[] = [];
+
+    await this.rabbitMQClient.takeMessages(RabbitMQUtil.deadLetterQueue(queue), limit, async held => {
+      messages = held.map(msg => this.toMessage(queue, msg, includePayload));
+      return [];
+    });
+
+    return messages;
+  }
+
+  /**
+   * Publish up to `limit` dead letters back to their queue
+   */
+  async replay(queue: QueueNames, limit: number): Promise<DeadLetterReplayResult> {
+    const result: DeadLetterReplayResult = { replayed: 0, skipped: 0 };
+
+    await this.rabbitMQClient.takeMessages(RabbitMQUtil.deadLetterQueue(queue), limit, async held => {
+      const replayed = [];
+      for (const msg of held) {
+        if (await this.republish(queue, msg)) {
+          replayed.push(msg);
+        }
+      }
+
+      result.replayed = replayed.length;
+      result.skipped = held.length - replayed.length;
+      return replayed;
+    });
+
+    if (result.replayed) {
+      this.logger.log(`🔁 Replayed ${result.replayed} dead letter(s) to ${queue}`);
+    }
+    return result;
+  }
+
+  /**
+   * Null when the message is not among the first MAX_SCAN dead letters or cannot be replayed
+   */
+  async replayOne(queue: QueueNames, messageId: string): Promise<DeadLetterMessage | null> {
+    let replayed: DeadLetterMessage | null = null;
+
+    await this.rabbitMQClient.takeMessages(RabbitMQUtil.deadLetterQueue(queue), DeadLetterService.MAX_SCAN, async held => {
+      const msg = held.find(candidate => this.messageIdOf(candidate) === messageId);
+      if (!msg || !(await this.republish(queue, msg))) {
+        return [];
+      }
+
+      replayed = this.toMessage(queue, msg, false);
+      return [msg];
+    });
+
+    if (replayed) {
+      this.logger.log(`🔁 Replayed dead letter ${messageId} to ${queue}`);
+    }
+    return replayed;
+  }
+
+  async purge(queue: QueueNames): Promise<number> {
+    const purged = await this.rabbitMQClient.purgeQueue(RabbitMQUtil.deadLetterQueue(queue));
+    this.logger.warn(`🗑️ Purged ${purged} dead letter(s) of ${queue}`);
+    return purged;
+  }
+
+  // Published as a new message: the dead letter headers do not follow it, the priority does
+  private async republish(queue: QueueNames, msg: any): Promise<boolean> {
+    let payload: any;
+    try {
+      payload = JSON.parse(msg.content.toString());
+    } catch {
+      this.logger.warn(`Dead letter ${this.messageIdOf(msg)} in ${queue} is not valid JSON, leaving it in place`);
+      return false;
+    }
+
+    if (queue === QueueNames.SCRAPE_REQUESTS && !(await this.reopenRequest(payload))) {
+      // Finished or cancelled since it died: running it again would change nothing
+      this.logger.log(`Dropped dead letter ${this.messageIdOf(msg)}: request ${payload?.id} no longer needs it`);
+      return true;
+    }
+
+    await this.rabbitMQClient.publish(queue, payload, { priority: msg.properties.priority });
+    return true;
+  }
+
+  /**
+   * A replayed request runs under a new dispatchId, as reports for the dead one are ignored
+   */
+  private async reopenRequest(request: ScrapeRequest): Promise<boolean> {
+    if (!request?.id) {
+      return false;
+    }
+
+    const dispatchId = Dispatch.newId();
+    if (!(await this.fetchRequestRepository.reopenForReplay(request.id, dispatchId))) {
+      return false;
+    }
+
+    request.dispatchId = dispatchId;
+    return true;
+  }
+
+  private toMessage(queue: QueueNames, msg: any, includePayload: boolean): DeadLetterMessage {
+    const info = DeadLetterHeaders.describe(msg.properties.headers);
+    const message: DeadLetterMessage = {
+      messageId: this.messageIdOf(msg),
+      ...info,
+      queue: info.queue || queue,
+      publishedAt: msg.properties.timestamp ? new Date(msg.properties.timestamp) : undefined
+    };
+
+    let payload: any;
+    try {
+      payload = JSON.parse(msg.content.toString());
+      message.requestId = payload?.id;
+      message.url = payload?.url;
+    } catch {
+      payload = msg.content.toString();
+    }
+
+    // Results can carry whole pages and base64 captures, so payloads are opt-in
+    if (includePayload) {
+      message.payload = payload;
+    }
+    return message;
+  }
+
+  // Messages published before message IDs were set are addressed by their content
+  private messageIdOf(msg: any): string {
+    return msg.properties.messageId || createHash('sha1').update(msg.content).digest('hex').substring(0, 24);
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Observable, Subject, filter } from 'rxjs';
+import { ExchangeNames } from '../interfaces/scrape.interface';
+import { JobStatusEvent, JobEventFilter } from '../interfaces/job-event.interface';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+
+/**
+ * Live status transitions of fetch requests. Transitions are broadcast through
+ * RabbitMQ so a client connected to any API instance sees every transition,
+ * whichever instance consumed the underlying queue message.
+ */
+@Injectable()
+export class JobEventsService {
+  private readonly logger = new Logger(JobEventsService.name);
+  private readonly events = new Subject<JobStatusEvent>();
+
+  constructor(
+    private readonly rabbitMQClient: RabbitMQUtil,
+    private readonly repository: UrlFetchRequestRepository
+  ) {}
+
+  async startRelay(): Promise<void> {
+    await this.rabbitMQClient.subscribe(ExchangeNames.JOB_EVENTS, (event: JobStatusEvent) => {
+      this.events.next(event);
+    });
+    this.logger.log('Job event relay started');
+  }
+
+  /**
+   * Best effort: a lost event must never fail the status update that produced it
+   */
+  async publish(event: Omit<JobStatusEvent, 'timestamp'>): Promise<void> {
+    const message: JobStatusEvent = { ...event, timestamp: new Date().toISOString() };
+
+    try {
+      await this.rabbitMQClient.broadcast(ExchangeNames.JOB_EVENTS, message);
+    } catch (error) {
+      this.logger.warn(`Failed to broadcast status event for ${event.requestId}, delivering locally: ${error.message}`);
+      this.events.next(message);
+    }
+  }
+
+  stream(subscription: JobEventFilter): Observable<JobStatusEvent> {
+    return this.events.pipe(filter(event => this.matches(event, subscription)));
+  }
+
+  /**
+   * Current state of the subscribed request ids, so a client that connects late
+   * does not wait for a transition that already happened
+   */
+  async snapshot(ids: string[]): Promise<JobStatusEvent[]> {
+    const snapshots: JobStatusEvent[] = [];
+
+    for (const id of ids) {
+      const request = await this.repository.findById(id);
+      if (!request) continue;
+
+      snapshots.push({
+        requestId: id,
+        url: request.url,
+        status: request.status,
+        retryCount: request.retryCount,
+        httpStatus: request.httpStatus,
+        errorMessage: request.errorMessage,
+        failureCategory: request.failureCategory,
+        snapshot: true,
+        timestamp: (request.updatedAt || new Date()).toISOString()
+      });
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Normalize client-supplied filters: valid ObjectIds and canonical URLs only
+   */
+  static buildFilter(ids: string[] = [], urls: string[] = []): JobEventFilter {
+    return {
+      ids: ids.map(id => id.trim()).filter(id => /^[0-9a-fA-F]{24}$/.test(id)),
+      urls: urls.map(url => url.trim()).filter(Boolean).map(url => UrlNormalizer.getCanonicalUrl(url))
+    };
+  }
+
+  matches(event: JobStatusEvent, subscription: JobEventFilter): boolean {
+    if (subscription.ids.includes(event.requestId)) {
+      return true;
+    }
+
+    // Request URLs are stored in canonical form, as are the filter URLs
+    return subscription.urls.includes(event.url);
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ScrapeResult } from '../interfaces/scrape.interface';
+import { PageLinkRepository } from '../repositories/page-link.repository';
+import { PageLink } from '../schemas/page-link.schema';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+
+@Injectable()
+export class LinkGraphService {
+  private readonly logger = new Logger(LinkGraphService.name);
+
+  constructor(private readonly repository: PageLinkRepository) {}
+
+  /**
+   * Store the outbound links of a successful scrape, keyed by its fetch request.
+   * A link is internal when its hostname matches the page's final hostname.
+   */
+  async recordLinks(result: ScrapeResult): Promise<void> {
+    if (!result.success || !result.links) {
+      return;
+    }
+
+    try {
+      const sourceUrl = UrlNormalizer.getCanonicalUrl(result.url);
+      const pageHostname = UrlNormalizer.getHostname(result.finalUrl || result.url);
+      const discoveredAt = result.scrapedAt ? new Date(result.scrapedAt) : new Date();
+
+      const links: Partial<PageLink>[] = result.links.map(link => ({
+        href: link.href,
+        targetUrl: UrlNormalizer.getCanonicalUrl(link.href),
+        anchorText: link.text,
+        rel: link.rel || [],
+        isInternal: UrlNormalizer.getHostname(link.href) === pageHostname,
+        discoveredAt
+      }));
+
+      const stored = await this.repository.replaceForSource(sourceUrl, result.id, links);
+      this.logger.log(`Recorded ${stored} outbound links for ${sourceUrl}`);
+    } catch (error) {
+      this.logger.error(`Error recording links for ${result.url}:`, error);
+    }
+  }
+
+  async getOutboundLinks(
+    url: string,
+    isInternal?: boolean,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<{ total: number; links: PageLink[] }> {
+    const [total, links] = await Promise.all([
+      this.repository.countOutbound(url, isInternal),
+      this.repository.findOutbound(url, isInternal, limit, offset)
+    ]);
+
+    return { total, links };
+  }
+
+  async getInboundLinks(
+    url: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<{ total: number; links: PageLink[] }> {
+    const [total, links] = await Promise.all([
+      this.repository.countInbound(url),
+      this.repository.findInbound(url, limit, offset)
+    ]);
+
+    return { total, links };
+  }
+}
@@ -0,0 +1,304 @@
+import { Injectable, Logger, OnModuleDestroy, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { parseExpression } from 'cron-parser';
+import { QueueNames, ScrapeRequest, FetchStatus } from '../interfaces/scrape.interface';
+import { ScheduleStatus } from '../interfaces/schedule.interface';
+import { ScrapeScheduleRepository } from '../repositories/scrape-schedule.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { ScrapeSchedule, ScrapeScheduleDocument } from '../schemas/scrape-schedule.schema';
+import { CreateScheduleDto, UpdateScheduleDto } from '../dto/scrape-schedule.dto';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { UrlNormalizer } from '../utils/url-normalizer.util';
+import { QueuePriority } from '../utils/queue-priority.util';
+import { Dispatch } from '../utils/dispatch.util';
+
+type ScheduleTiming = Pick<ScrapeSchedule, 'cronExpression' | 'intervalMinutes' | 'timezone'>;
+
+@Injectable()
+export class ScrapeScheduleService implements OnModuleDestroy {
+  private readonly logger = new Logger(ScrapeScheduleService.name);
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+  private readonly enabled: boolean;
+  private readonly pollInterval: number;
+  private readonly lockMs: number;
+  private readonly staleMinutes: number;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly repository: ScrapeScheduleRepository,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository,
+    private readonly rabbitMQClient: RabbitMQUtil,
+    private readonly configService: ConfigService
+  ) {
+    this.enabled = `${this.configService.get('SCHEDULER_ENABLED', true)}` !== 'false';
+    this.pollInterval = this.configService.get<number>('SCHEDULER_POLL_SECONDS', 15) * 1000;
+    this.lockMs = this.configService.get<number>('SCHEDULER_LOCK_SECONDS', 60) * 1000;
+    this.staleMinutes = this.configService.get<number>('STALE_REQUEST_TIMEOUT_MINUTES', 120);
+  }
+
+  startScheduler(): void {
+    if (!this.enabled) {
+      this.logger.log('Scheduler disabled on this instance');
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.pollInterval);
+    this.logger.log(`Scheduler started as ${this.instanceId} (polling every ${this.pollInterval / 1000}s)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async createSchedule(dto: CreateScheduleDto): Promise<ScrapeScheduleDocument> {
+    const timing = this.validateTiming(dto);
+
+    const schedule = await this.repository.create({
+      url: UrlNormalizer.getCanonicalUrl(dto.url),
+      name: dto.name,
+      ignoreSelectors: dto.ignoreSelectors,
+      ...timing,
+      status: ScheduleStatus.ACTIVE,
+      nextRunAt: this.computeNextRun(timing, new Date()),
+      runCount: 0
+    });
+
+    this.logger.log(`Created schedule ${schedule._id} for ${schedule.url} (${this.describe(schedule)}), next run at ${schedule.nextRunAt.toISOString()}`);
+    return schedule;
+  }
+
+  async getSchedule(id: string): Promise<ScrapeScheduleDocument | null> {
+    return this.repository.findById(id);
+  }
+
+  async getSchedules(status?: ScheduleStatus, limit: number = 50, offset: number = 0): Promise<ScrapeScheduleDocument[]> {
+    return this.repository.findAll(status ? { status } : {}, limit, offset);
+  }
+
+  /**
+   * Changing the timing replaces it completely: setting an interval drops the cron expression and vice versa
+   */
+  async updateSchedule(id: string, dto: UpdateScheduleDto): Promise<ScrapeScheduleDocument | null> {
+    const schedule = await this.repository.findById(id);
+    if (!schedule) {
+      return null;
+    }
+
+    const data: Partial<ScrapeSchedule> = {};
+    if (dto.name !== undefined) {
+      data.name = dto.name;
+    }
+    if (dto.ignoreSelectors !== undefined) {
+      data.ignoreSelectors = dto.ignoreSelectors;
+    }
+
+    const timingChanged = dto.cronExpression !== undefined || dto.intervalMinutes !== undefined || dto.timezone !== undefined;
+    if (timingChanged) {
+      const timing = this.validateTiming({
+        cronExpression: dto.cronExpression ?? (dto.intervalMinutes === undefined ? schedule.cronExpression : undefined),
+        intervalMinutes: dto.intervalMinutes ?? (dto.cronExpression === undefined ? schedule.intervalMinutes : undefined),
+        timezone: dto.timezone ?? schedule.timezone
+      });
+
+      data.cronExpression = timing.cronExpression ?? null;
+      data.intervalMinutes = timing.intervalMinutes ?? null;
+      data.timezone = timing.timezone ?? null;
+      data.nextRunAt = this.computeNextRun(timing, new Date());
+    }
+
+    return this.repository.update(id, data);
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      this.logger.log(`Deleted schedule ${id}`);
+    }
+    return deleted;
+  }
+
+  async pauseSchedule(id: string): Promise<ScrapeScheduleDocument | null> {
+    const schedule = await this.repository.transition(id, ScheduleStatus.ACTIVE, ScheduleStatus.PAUSED);
+    if (schedule) {
+      this.logger.log(`Paused schedule ${id}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Resuming does not catch up on runs missed while paused; the next run is computed from now
+   */
+  async resumeSchedule(id: string): Promise<ScrapeScheduleDocument | null> {
+    const schedule = await this.repository.findById(id);
+    if (!schedule) {
+      return null;
+    }
+
+    const resumed = await this.repository.transition(id, ScheduleStatus.PAUSED, ScheduleStatus.ACTIVE, {
+      nextRunAt: this.computeNextRun(schedule, new Date())
+    });
+    if (resumed) {
+      this.logger.log(`Resumed schedule ${id}, next run at ${resumed.nextRunAt.toISOString()}`);
+    }
+    return resumed;
+  }
+
+  /**
+   * Called once a scheduled fetch request reaches a terminal state
+   */
+  async handleRunFinished(scheduleId: string, fetchRequestId: string, status: FetchStatus): Promise<void> {
+    try {
+      await this.repository.recordOutcome(scheduleId, fetchRequestId, status);
+    } catch (error) {
+      this.logger.error(`Error recording outcome of schedule ${scheduleId}:`, error);
+    }
+  }
+
+  /**
+   * Fire every schedule that is due. Ticks never overlap on one instance,
+   * and the claim in the repository keeps instances from firing the same run.
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      let schedule: ScrapeScheduleDocument | null;
+      while ((schedule = await this.repository.claimDue(this.instanceId, new Date(), this.lockMs))) {
+        await this.fire(schedule);
+      }
+    } catch (error) {
+      this.logger.error('Scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async fire(schedule: ScrapeScheduleDocument): Promise<void> {
+    const id = schedule._id.toString();
+    const now = new Date();
+    const nextRunAt = this.computeNextRun(schedule, now);
+
+    try {
+      // Overlapping runs of one schedule only pile up behind a slow or busy host
+      if (await this.isPreviousRunInFlight(schedule)) {
+        this.logger.warn(`Schedule ${id}: previous run still in progress, skipping until ${nextRunAt.toISOString()}`);
+        await this.repository.completeRun(id, this.instanceId, { nextRunAt }, false);
+        return;
+      }
+
+      const dispatchId = Dispatch.newId();
+      const request = await this.fetchRequestRepository.create({
+        url: schedule.url,
+        status: FetchStatus.PENDING,
+        retryCount: 0,
+        priority: QueuePriority.SCHEDULED,
+        dispatchId,
+        scheduleId: schedule._id,
+        ignoreSelectors: schedule.ignoreSelectors
+      });
+
+      const scrapeRequest: ScrapeRequest = {
+        id: (request as any)._id.toString(),
+        url: schedule.url,
+        dispatchId,
+        retryCount: 0,
+        priority: QueuePriority.SCHEDULED,
+        ignoreSelectors: schedule.ignoreSelectors
+      };
+
+      await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest, { priority: QueuePriority.SCHEDULED });
+
+      await this.repository.completeRun(id, this.instanceId, {
+        lastRunAt: now,
+        lastStatus: FetchStatus.PENDING,
+        lastFetchRequestId: (request as any)._id,
+        nextRunAt
+      }, true);
+
+      this.logger.log(`⏰ Schedule ${id} queued ${schedule.url} (ID: ${scrapeRequest.id}), next run at ${nextRunAt.toISOString()}`);
+    } catch (error) {
+      // Leave the claim to expire so the run is retried after the lock timeout
+      this.logger.error(`Schedule ${id} failed to fire:`, error);
+    }
+  }
+
+  private async isPreviousRunInFlight(schedule: ScrapeSchedule): Promise<boolean> {
+    if (!schedule.lastFetchRequestId) {
+      return false;
+    }
+
+    const previous = await this.fetchRequestRepository.findById(schedule.lastFetchRequestId.toString());
+    if (!previous || ![FetchStatus.PENDING, FetchStatus.PROCESSING].includes(previous.status)) {
+      return false;
+    }
+
+    // A request the scraper never answered must not block the schedule forever
+    const staleBefore = Date.now() - this.staleMinutes * 60 * 1000;
+    return previous.createdAt.getTime() > staleBefore;
+  }
+
+  /**
+   * Interval schedules keep their cadence from the previous slot; missed slots
+   * (downtime, pauses) are skipped rather than fired in a burst
+   */
+  private computeNextRun(schedule: ScheduleTiming & { nextRunAt?: Date }, from: Date): Date {
+    if (schedule.cronExpression) {
+      return parseExpression(schedule.cronExpression, {
+        currentDate: from,
+        tz: schedule.timezone || 'UTC'
+      }).next().toDate();
+    }
+
+    const intervalMs = schedule.intervalMinutes * 60 * 1000;
+    let next = (schedule.nextRunAt?.getTime() ?? from.getTime()) + intervalMs;
+    if (next <= from.getTime()) {
+      next += Math.ceil((from.getTime() - next) / intervalMs) * intervalMs;
+      if (next <= from.getTime()) {
+        next += intervalMs;
+      }
+    }
+
+    return new Date(next);
+  }
+
+  private validateTiming(timing: ScheduleTiming): ScheduleTiming {
+    const { cronExpression, intervalMinutes, timezone } = timing;
+
+    const hasInterval = intervalMinutes !== undefined && intervalMinutes !== null;
+    if (!!cronExpression === hasInterval) {
+      throw new BadRequestException('Provide exactly one of cronExpression or intervalMinutes');
+    }
+
+    if (timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        throw new BadRequestException(`Invalid timezone: ${timezone}`);
+      }
+    }
+
+    if (cronExpression) {
+      try {
+        parseExpression(cronExpression, { tz: timezone || 'UTC' }).next();
+      } catch (error) {
+        throw new BadRequestException(`Invalid cron expression "${cronExpression}": ${error.message}`);
+      }
+      return { cronExpression, timezone };
+    }
+
+    return { intervalMinutes };
+  }
+
+  private describe(schedule: ScheduleTiming): string {
+    return schedule.cronExpression ?
+      `cron "${schedule.cronExpression}"${schedule.timezone ? ` ${schedule.timezone}` : ''}` :
+      `every ${schedule.intervalMinutes} min`;
+  }
+}
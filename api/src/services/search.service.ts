@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { ResultFilter } from '../interfaces/result-query.interface';
+import { SearchResults } from '../interfaces/search.interface';
+import { SearchSnippet } from '../utils/search-snippet.util';
+
+/**
+ * Full-text search over the extracted text of the latest successful scrape of each URL,
+ * on the MongoDB text index of the fetch requests
+ */
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+
+  constructor(private readonly repository: UrlFetchRequestRepository) {}
+
+  async search(text: string, filter: ResultFilter, limit: number, offset: number): Promise<SearchResults> {
+    const query = SearchSnippet.parse(text);
+    const [records, total] = await Promise.all([
+      this.repository.search(text, filter, limit, offset),
+      this.repository.countSearch(text, filter)
+    ]);
+
+    return {
+      query: text,
+      total,
+      limit,
+      offset,
+      items: records.map(record => ({
+        id: record._id.toString(),
+        url: record.url,
+        title: record.metadata?.title,
+        host: record.host,
+        fetchedAt: record.fetchedAt,
+        score: Math.round(record.score * 1000) / 1000,
+        snippets: SearchSnippet.build(record.textContent, query)
+      }))
+    };
+  }
+
+  /**
+   * Index URLs whose latest version is not flagged yet; repeat until it returns 0
+   */
+  async reindex(limit: number): Promise<number> {
+    const indexed = await this.repository.backfillLatestVersions(limit);
+    if (indexed > 0) {
+      this.logger.log(`Flagged the latest version of ${indexed} URL(s) for search`);
+    }
+    return indexed;
+  }
+}
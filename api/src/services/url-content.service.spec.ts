@@ -0,0 +1,181 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UrlContentService } from './url-content.service';
+import { LinkGraphService } from './link-graph.service';
+import { CrawlService } from './crawl.service';
+import { ScrapeScheduleService } from './scrape-schedule.service';
+import { ChangeDetectionService } from './change-detection.service';
+import { WebhookService } from './webhook.service';
+import { JobEventsService } from './job-events.service';
+import { BatchService } from './batch.service';
+import { ArtifactService } from './artifact.service';
+import { ContentStoreService } from './content-store.service';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { FailureCategory, FetchStatus, ScrapeFailure, ScrapeResult } from '../interfaces/scrape.interface';
+
+describe('UrlContentService', () => {
+  const ID = '686ec1e200c2137ab7d5c276';
+
+  let service: UrlContentService;
+  let repository: Record<string, jest.Mock>;
+  let rabbitMQClient: Record<string, jest.Mock>;
+  let webhookService: Record<string, jest.Mock>;
+  let jobEventsService: Record<string, jest.Mock>;
+  let batchService: Record<string, jest.Mock>;
+  let contentStoreService: Record<string, jest.Mock>;
+  let crawlService: Record<string, jest.Mock>;
+
+  const record = (status: FetchStatus, dispatchId: string) => ({
+    _id: ID,
+    url: 'https://example.com/',
+    status,
+    dispatchId,
+    retryCount: 0,
+    batchId: 'batch-id'
+  });
+
+  const result: ScrapeResult = {
+    id: ID,
+    url: 'https://example.com/',
+    dispatchId: 'original',
+    success: true,
+    content: '<html></html>',
+    httpStatus: 200,
+    scrapedAt: new Date(),
+    responseTime: 100
+  } as ScrapeResult;
+
+  const failure = (canRetry: boolean): ScrapeFailure => ({
+    id: ID,
+    url: 'https://example.com/',
+    dispatchId: 'original',
+    errorMessage: 'HTTP 503',
+    retryCount: 0,
+    maxRetries: 3,
+    canRetry,
+    httpStatus: 503,
+    category: FailureCategory.HTTP_ERROR,
+    failedAt: new Date()
+  });
+
+  beforeEach(async () => {
+    repository = { findById: jest.fn(), updateIfCurrent: jest.fn(), update: jest.fn(), findStalePendingRequests: jest.fn() };
+    rabbitMQClient = { publish: jest.fn(), publishDelayed: jest.fn() };
+    webhookService = { notify: jest.fn() };
+    jobEventsService = { publish: jest.fn() };
+    batchService = { handleMemberFinished: jest.fn() };
+    contentStoreService = { store: jest.fn() };
+    crawlService = { handlePageFinished: jest.fn() };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        UrlContentService,
+        { provide: UrlFetchRequestRepository, useValue: repository },
+        { provide: RabbitMQUtil, useValue: rabbitMQClient },
+        { provide: ConfigService, useValue: { get: (_key: string, fallback?: unknown) => fallback } },
+        { provide: LinkGraphService, useValue: { recordLinks: jest.fn() } },
+        { provide: CrawlService, useValue: crawlService },
+        { provide: ScrapeScheduleService, useValue: { handleRunFinished: jest.fn() } },
+        { provide: ChangeDetectionService, useValue: { detectChange: jest.fn() } },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: JobEventsService, useValue: jobEventsService },
+        { provide: BatchService, useValue: batchService },
+        { provide: ArtifactService, useValue: { store: jest.fn() } },
+        { provide: ContentStoreService, useValue: contentStoreService }
+      ]
+    }).compile();
+
+    service = module.get(UrlContentService);
+  });
+
+  describe('late duplicates', () => {
+    it.each([
+      ['a finished record', record(FetchStatus.SUCCESS, 'original')],
+      ['a record queued again under a new dispatch', record(FetchStatus.PENDING, 'raised')],
+      ['a cancelled record', record(FetchStatus.CANCELLED, 'original')]
+    ])('ignores a result for %s', async (_, current) => {
+      repository.findById.mockResolvedValue(current);
+
+      await service.handleScrapeResult(result);
+
+      expect(contentStoreService.store).not.toHaveBeenCalled();
+      expect(repository.updateIfCurrent).not.toHaveBeenCalled();
+      expect(repository.update).not.toHaveBeenCalled();
+      expect(batchService.handleMemberFinished).not.toHaveBeenCalled();
+      expect(jobEventsService.publish).not.toHaveBeenCalled();
+      expect(webhookService.notify).not.toHaveBeenCalled();
+    });
+
+    it.each([true, false])('ignores a failure for a finished record (retryable: %s)', async canRetry => {
+      repository.findById.mockResolvedValue(record(FetchStatus.SUCCESS, 'original'));
+
+      await service.handleScrapeFailure(failure(canRetry));
+
+      expect(repository.updateIfCurrent).not.toHaveBeenCalled();
+      expect(rabbitMQClient.publishDelayed).not.toHaveBeenCalled();
+      expect(jobEventsService.publish).not.toHaveBeenCalled();
+      expect(webhookService.notify).not.toHaveBeenCalled();
+    });
+
+    it('marks only the current dispatch as started', async () => {
+      repository.updateIfCurrent.mockResolvedValue(null);
+
+      await service.handleScrapeStarted({
+        id: ID,
+        url: 'https://example.com/',
+        dispatchId: 'original',
+        startedAt: new Date(),
+        userAgent: 'test'
+      });
+
+      expect(repository.updateIfCurrent).toHaveBeenCalledWith(ID, 'original', expect.objectContaining({ status: FetchStatus.PROCESSING }));
+      expect(jobEventsService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('current dispatch', () => {
+    it('retries a failure under a new dispatchId', async () => {
+      repository.findById.mockResolvedValue(record(FetchStatus.PROCESSING, 'original'));
+      repository.updateIfCurrent.mockImplementation(async (_id, _dispatchId, data) => ({ ...record(FetchStatus.PENDING, data.dispatchId) }));
+
+      await service.handleScrapeFailure(failure(true));
+
+      const [, dispatchId, update] = repository.updateIfCurrent.mock.calls[0];
+      expect(dispatchId).toBe('original');
+      expect(update.dispatchId).toEqual(expect.any(String));
+      expect(update.dispatchId).not.toBe('original');
+
+      const [, message] = rabbitMQClient.publishDelayed.mock.calls[0];
+      expect(message).toMatchObject({ id: ID, dispatchId: update.dispatchId, retryCount: 1 });
+    });
+
+    it('finishes the record and notifies once on a permanent failure', async () => {
+      repository.findById.mockResolvedValue(record(FetchStatus.PROCESSING, 'original'));
+      repository.updateIfCurrent.mockResolvedValue(record(FetchStatus.FAILED, 'original'));
+
+      await service.handleScrapeFailure(failure(false));
+
+      expect(repository.updateIfCurrent).toHaveBeenCalledWith(ID, 'original', expect.objectContaining({ status: FetchStatus.FAILED }));
+      expect(batchService.handleMemberFinished).toHaveBeenCalledTimes(1);
+      expect(webhookService.notify).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cleanupStaleRequests', () => {
+    it('fails stale requests and reports them to their crawl and batch', async () => {
+      repository.findStalePendingRequests.mockResolvedValue([
+        { _id: ID, status: FetchStatus.PENDING, crawlId: 'crawl-id' },
+        { _id: 'batched', status: FetchStatus.PENDING, batchId: 'batch-id' }
+      ]);
+
+      expect(await service.cleanupStaleRequests()).toBe(2);
+
+      expect(repository.update).toHaveBeenCalledWith(ID, expect.objectContaining({ status: FetchStatus.FAILED }));
+      expect(crawlService.handlePageFinished).toHaveBeenCalledTimes(1);
+      expect(crawlService.handlePageFinished).toHaveBeenCalledWith(ID, false);
+      expect(batchService.handleMemberFinished).toHaveBeenCalledTimes(1);
+      expect(batchService.handleMemberFinished).toHaveBeenCalledWith('batch-id');
+    });
+  });
+});
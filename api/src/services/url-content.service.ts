@@ -1,18 +1,51 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { defer, filter, firstValueFrom, merge, of, timeout } from 'rxjs';
 import { 
   QueueNames, 
   ScrapeRequest, 
   ScrapeResult, 
   ScrapeFailure,
   ScrapeStarted,
-  FetchStatus 
+  ScrapeOptions,
+  FetchStatus,
+  FailureCategory,
+  ScrapeQueueStats,
+  ExchangeNames,
+  ControlAction,
+  ScraperControlMessage,
+  ScrapePriority
 } from '../interfaces/scrape.interface';
 import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
 import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
-import { SubmitUrlsResponseDto, SkippedUrl } from '../dto/submit-urls.dto';
+import { SubmitUrlsResponseDto, SkippedUrl, SubmitOptions, SubmitUrlItemDto } from '../dto/submit-urls.dto';
 import { RabbitMQUtil } from '../utils/rabbitmq.util';
 import { UrlNormalizer } from '../utils/url-normalizer.util';
+import { DeadLetterHeaders } from '../utils/dead-letter.util';
+import { QueuePriority } from '../utils/queue-priority.util';
+import { RetryDelay } from '../utils/retry-delay.util';
+import { Dispatch } from '../utils/dispatch.util';
+import { ResultCursor } from '../utils/result-cursor.util';
+import { ResultCursorPosition, ResultFilter, ResultPage, ResultSort } from '../interfaces/result-query.interface';
+import { LinkGraphService } from './link-graph.service';
+import { CrawlService } from './crawl.service';
+import { ScrapeScheduleService } from './scrape-schedule.service';
+import { ChangeDetectionService } from './change-detection.service';
+import { WebhookService } from './webhook.service';
+import { JobEventsService } from './job-events.service';
+import { BatchService } from './batch.service';
+import { ArtifactService } from './artifact.service';
+import { ContentStoreService, ContentMigrationResult } from './content-store.service';
+
+export interface FreshContentResult {
+  // Request to poll when the scrape did not finish within the wait
+  requestId: string;
+  status: FetchStatus;
+  // Served from an earlier scrape instead of one made for this read
+  cached: boolean;
+  // Set once the request has finished
+  record?: UrlFetchRequest;
+}
 
 @Injectable()
 export class UrlContentService {
@@ -22,22 +55,35 @@ export class UrlContentService {
   constructor(
     private readonly repository: UrlFetchRequestRepository,
     private readonly rabbitMQClient: RabbitMQUtil,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly linkGraphService: LinkGraphService,
+    private readonly crawlService: CrawlService,
+    private readonly scheduleService: ScrapeScheduleService,
+    private readonly changeDetectionService: ChangeDetectionService,
+    private readonly webhookService: WebhookService,
+    private readonly jobEventsService: JobEventsService,
+    private readonly batchService: BatchService,
+    private readonly artifactService: ArtifactService,
+    private readonly contentStoreService: ContentStoreService
   ) {
     this.scrapeInterval = this.configService.get<number>('SCRAPE_INTERVAL_MINUTES', 60);
   }
 
-  async submitUrls(urls: string[]): Promise<SubmitUrlsResponseDto> {
+  async submitUrls(items: SubmitUrlItemDto[], options: SubmitOptions = {}): Promise<SubmitUrlsResponseDto> {
     const submitted: string[] = [];
     const skipped: SkippedUrl[] = [];
     const queued: string[] = [];
+    const batch = await this.batchService.openBatch(options.labels);
 
-    for (const url of urls) {
+    for (const { url, options: urlOptions } of items) {
       try {
         // Normalize URL for consistent storage
         const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
         
-        const recentRequest = await this.repository.getRecentByUrl(url, this.scrapeInterval);
+        // force only lifts the interval; a scrape already in flight is still reused
+        const recentRequest = options.force
+          ? await this.repository.findOpenByUrl(url)
+          : await this.repository.getRecentByUrl(url, this.scrapeInterval);
         
         if (recentRequest) {
           let reason: string;
@@ -68,21 +114,41 @@ export class UrlContentService {
           continue;
         }
 
+        const scrapeOptions = this.mergeScrapeOptions(options.options, urlOptions);
+        const priority = QueuePriority.forSubmission(options.priority);
+        const dispatchId = Dispatch.newId();
+
         // Create new request with canonical URL
         const request = await this.repository.create({
           url: canonicalUrl,
           status: FetchStatus.PENDING,
-          retryCount: 0
+          retryCount: 0,
+          priority,
+          dispatchId,
+          ignoreSelectors: options.ignoreSelectors,
+          scrapeOptions,
+          callbackUrl: options.callbackUrl,
+          callbackSecret: options.callbackSecret,
+          batchId: batch._id
         });
 
         const scrapeRequest: ScrapeRequest = {
           id: (request as any)._id.toString(),
           url: canonicalUrl,
+          dispatchId,
           retryCount: 0,
-          priority: 1
+          priority,
+          ignoreSelectors: options.ignoreSelectors,
+          options: scrapeOptions
         };
 
-        await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest);
+        await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest, { priority });
+        await this.jobEventsService.publish({
+          requestId: scrapeRequest.id,
+          url: canonicalUrl,
+          status: FetchStatus.PENDING,
+          retryCount: 0
+        });
         
         submitted.push(url);
         queued.push((request as any)._id.toString());
@@ -98,18 +164,49 @@ export class UrlContentService {
       }
     }
 
-    this.logger.log(`Submitted ${submitted.length} URLs, skipped ${skipped.length}`);
+    await this.batchService.sealBatch(batch._id.toString(), queued, skipped);
+
+    this.logger.log(`Submitted ${submitted.length} URLs, skipped ${skipped.length} (batch ${batch._id})`);
     
-    return { submitted, skipped, queued };
+    return { batchId: batch._id.toString(), submitted, skipped, queued };
+  }
+
+  /**
+   * Per-URL options win over the submission-wide ones; headers are merged by name
+   */
+  private mergeScrapeOptions(shared?: ScrapeOptions, own?: ScrapeOptions): ScrapeOptions | undefined {
+    if (!shared && !own) {
+      return undefined;
+    }
+
+    const merged: ScrapeOptions = { ...shared, ...own };
+    if (shared?.headers && own?.headers) {
+      merged.headers = { ...shared.headers, ...own.headers };
+    }
+
+    // Drop keys the DTO left undefined so the stored document stays compact
+    return JSON.parse(JSON.stringify(merged));
   }
 
   async handleScrapeStarted(started: ScrapeStarted): Promise<void> {
     try {
-      await this.repository.update(started.id, {
+      const record = await this.repository.updateIfCurrent(started.id, started.dispatchId, {
         status: FetchStatus.PROCESSING,
         userAgent: started.userAgent,
         // Clear any previous error messages when starting fresh
-        errorMessage: undefined
+        errorMessage: undefined,
+        nextRetryAt: null
+      });
+      if (!record) {
+        this.logger.log(`Ignoring start of cancelled, finished, superseded or unknown request ${started.id}`);
+        return;
+      }
+
+      await this.jobEventsService.publish({
+        requestId: started.id,
+        url: record?.url || started.url,
+        status: FetchStatus.PROCESSING,
+        retryCount: record?.retryCount
       });
       this.logger.log(`Started processing ${started.url}`);
     } catch (error) {
@@ -119,6 +216,12 @@ export class UrlContentService {
 
   async handleScrapeResult(result: ScrapeResult): Promise<void> {
     try {
+      // Checked up front so nothing is stored for a late duplicate or a cancelled request
+      if (!(await this.isCurrentDispatch(result.id, result.dispatchId))) {
+        this.logger.log(`Ignoring late result for cancelled, finished or superseded request ${result.id}`);
+        return;
+      }
+
       const updateData: Partial<UrlFetchRequest> = {
         status: result.success ? FetchStatus.SUCCESS : FetchStatus.FAILED,
         fetchedAt: result.scrapedAt,
@@ -128,25 +231,93 @@ export class UrlContentService {
         contentLength: result.contentLength,
         contentHash: result.contentHash,
         userAgent: result.userAgent,
-        redirectChain: result.redirectChain || []
+        redirectChain: result.redirectChain || [],
+        nextRetryAt: null
       };
 
       if (result.success) {
         // SUCCESS: Set content and clear all error fields
-        updateData.content = result.content;
+        Object.assign(updateData, await this.storeContent(result));
         updateData.contentType = result.contentType;
+        updateData.contentKind = result.contentKind;
+        updateData.textHash = result.textHash;
+        updateData.textContent = result.textContent;
+        updateData.markdown = result.markdown;
+        updateData.wordCount = result.wordCount;
+        updateData.metadata = result.metadata;
+        updateData.robotsDirectives = result.robotsDirectives;
+        updateData.renderMode = result.renderMode;
+        updateData.renderFallbackReason = result.renderFallbackReason ?? null;
         updateData.httpStatus = result.httpStatus;
         updateData.errorMessage = null; // Explicitly clear error message
+        updateData.failureCategory = null;
       } else {
         // FAILURE: Set error and clear all content fields
         updateData.errorMessage = result.errorMessage;
         updateData.httpStatus = result.httpStatus;
         updateData.content = null; // Explicitly clear content
+        updateData.contentRef = null;
+        updateData.rawContentRef = null;
+        updateData.contentKind = null;
         updateData.contentType = null;
         updateData.contentHash = null;
+        updateData.textHash = null;
+        updateData.textContent = null;
+        updateData.markdown = null;
+        updateData.wordCount = null;
+        updateData.metadata = null;
+        updateData.robotsDirectives = null;
+        updateData.renderMode = null;
+        updateData.renderFallbackReason = null;
+        updateData.changeStatus = null;
+        updateData.changeRatio = null;
+        updateData.previousRequestId = null;
+      }
+
+      let record = await this.repository.updateIfCurrent(result.id, result.dispatchId, updateData);
+      if (!record) {
+        this.logger.log(`Ignoring result for cancelled, finished, superseded or unknown request ${result.id}`);
+        return;
+      }
+
+      if (result.success) {
+        if (result.artifacts?.length) {
+          const artifacts = await this.artifactService.store(record, result.artifacts);
+          record = await this.repository.update(result.id, { artifacts }) || record;
+        }
+
+        const change = await this.changeDetectionService.detectChange(record, result);
+        record = await this.repository.update(result.id, change) || record;
+        if (change.changeStatus) {
+          this.logger.log(`Change check for ${result.url}: ${change.changeStatus}${change.changeRatio ? ` (ratio ${change.changeRatio})` : ''}`);
+        }
+
+        await this.linkGraphService.recordLinks(result);
+        await this.repository.markLatestVersion(record.url);
+      }
+
+      if (record?.crawlId) {
+        await this.crawlService.handlePageFinished(result.id, result.success, result.links);
+      }
+
+      if (record?.scheduleId) {
+        await this.scheduleService.handleRunFinished(record.scheduleId.toString(), result.id, updateData.status);
       }
 
-      await this.repository.update(result.id, updateData);
+      if (record?.batchId) {
+        await this.batchService.handleMemberFinished(record.batchId.toString());
+      }
+
+      await this.jobEventsService.publish({
+        requestId: result.id,
+        url: record?.url || result.url,
+        status: updateData.status,
+        retryCount: record?.retryCount,
+        httpStatus: result.httpStatus,
+        errorMessage: result.success ? undefined : result.errorMessage
+      });
+      await this.webhookService.notify(record);
+
       this.logger.log(`Updated result for ${result.url}: ${result.success ? 'SUCCESS' : 'FAILED'} ${result.success ? '(cleared error message)' : '(cleared content)'}`);
     } catch (error) {
       this.logger.error(`Error handling scrape result for ${result.url}:`, error);
@@ -159,16 +330,49 @@ export class UrlContentService {
       
       this.logger.log(`Handling failure for ${failure.url}: ${failure.errorMessage} (retry ${failure.retryCount}/${maxRetries}, canRetry: ${failure.canRetry})`);
       
-      if (failure.canRetry && failure.retryCount < maxRetries) {
-        const request = await this.repository.update(failure.id, {
+      if (!(await this.isCurrentDispatch(failure.id, failure.dispatchId))) {
+        this.logger.log(`Ignoring late failure for cancelled, finished or superseded request ${failure.id}`);
+        return;
+      }
+
+      const retryable = failure.canRetry && failure.category !== FailureCategory.ROBOTS_DISALLOWED;
+
+      if (retryable && failure.retryCount < maxRetries) {
+        const delayMs = RetryDelay.forFailure(failure, {
+          baseMs: Number(this.configService.get<number>('RETRY_BASE_DELAY_SECONDS', 5)) * 1000,
+          maxMs: Number(this.configService.get<number>('RETRY_MAX_DELAY_SECONDS', 300)) * 1000,
+          retryAfterMaxMs: Number(this.configService.get<number>('RETRY_AFTER_MAX_SECONDS', 3600)) * 1000
+        });
+        const nextRetryAt = new Date(Date.now() + delayMs);
+        const previous = await this.repository.findById(failure.id);
+        const priority = QueuePriority.forRetry(previous?.priority);
+        const dispatchId = Dispatch.newId();
+
+        const request = await this.repository.updateIfCurrent(failure.id, failure.dispatchId, {
           retryCount: failure.retryCount + 1,
           status: FetchStatus.PENDING,
+          nextRetryAt,
+          priority,
+          dispatchId,
           // Keep the error message for debugging but clear other fields
           errorMessage: `Retry ${failure.retryCount + 1}/${maxRetries}: ${failure.errorMessage}`,
           // Clear previous success data
           content: undefined,
+          contentRef: undefined,
+          rawContentRef: undefined,
+          contentKind: undefined,
           contentType: undefined,
           contentHash: undefined,
+          textHash: undefined,
+          textContent: undefined,
+          markdown: undefined,
+          wordCount: undefined,
+          metadata: undefined,
+          robotsDirectives: undefined,
+          changeStatus: undefined,
+          changeRatio: undefined,
+          previousRequestId: undefined,
+          failureCategory: failure.category,
           fetchedAt: undefined
         });
 
@@ -176,44 +380,309 @@ export class UrlContentService {
           const scrapeRequest: ScrapeRequest = {
             id: (request as any)._id.toString(),
             url: failure.url,
+            dispatchId,
             retryCount: failure.retryCount + 1,
-            priority: 2
+            priority,
+            ignoreSelectors: request.ignoreSelectors,
+            options: request.scrapeOptions
           };
 
-          await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest);
-          this.logger.log(`🔄 Retrying ${failure.url} (attempt ${failure.retryCount + 1}/${maxRetries})`);
+          await this.rabbitMQClient.publishDelayed(QueueNames.SCRAPE_REQUESTS, scrapeRequest, delayMs, { priority });
+          await this.jobEventsService.publish({
+            requestId: scrapeRequest.id,
+            url: request.url,
+            status: FetchStatus.PENDING,
+            retryCount: scrapeRequest.retryCount,
+            retrying: true,
+            nextRetryAt: nextRetryAt.toISOString(),
+            httpStatus: failure.httpStatus,
+            errorMessage: failure.errorMessage,
+            failureCategory: failure.category
+          });
+          this.logger.log(`🔄 Retrying ${failure.url} in ${Math.round(delayMs / 1000)}s (attempt ${failure.retryCount + 1}/${maxRetries})`);
         }
       } else {
-        const reason = failure.canRetry ? 
-          `Maximum retries (${maxRetries}) exceeded` : 
-          'Error is not retryable';
+        const reason = failure.category === FailureCategory.ROBOTS_DISALLOWED ?
+          'Blocked by site policy' :
+          failure.category === FailureCategory.DEAD_LETTERED ?
+          'Dropped from the queue' :
+          failure.canRetry ? 
+            `Maximum retries (${maxRetries}) exceeded` : 
+            'Error is not retryable';
           
-        await this.repository.update(failure.id, {
+        const record = await this.repository.updateIfCurrent(failure.id, failure.dispatchId, {
           status: FetchStatus.FAILED,
           errorMessage: `${reason}: ${failure.errorMessage}`,
+          nextRetryAt: null,
           httpStatus: failure.httpStatus,
+          failureCategory: failure.category,
           // Clear any success data
           content: undefined,
+          contentRef: undefined,
+          rawContentRef: undefined,
+          contentKind: undefined,
           contentType: undefined,
-          contentHash: undefined
+          contentHash: undefined,
+          textHash: undefined,
+          textContent: undefined,
+          markdown: undefined,
+          wordCount: undefined,
+          metadata: undefined,
+          robotsDirectives: undefined,
+          changeStatus: undefined,
+          changeRatio: undefined,
+          previousRequestId: undefined
         });
+        if (!record) {
+          this.logger.log(`Ignoring failure for cancelled, finished, superseded or unknown request ${failure.id}`);
+          return;
+        }
         this.logger.warn(`❌ Permanently failed: ${failure.url} after ${failure.retryCount} attempts (${reason})`);
+
+        if (record?.crawlId) {
+          await this.crawlService.handlePageFinished(failure.id, false);
+        }
+
+        if (record?.scheduleId) {
+          await this.scheduleService.handleRunFinished(record.scheduleId.toString(), failure.id, FetchStatus.FAILED);
+        }
+
+        if (record?.batchId) {
+          await this.batchService.handleMemberFinished(record.batchId.toString());
+        }
+
+        await this.jobEventsService.publish({
+          requestId: failure.id,
+          url: record?.url || failure.url,
+          status: FetchStatus.FAILED,
+          retryCount: failure.retryCount,
+          httpStatus: failure.httpStatus,
+          errorMessage: record?.errorMessage,
+          failureCategory: failure.category
+        });
+        await this.webhookService.notify(record);
       }
     } catch (error) {
       this.logger.error(`Error handling scrape failure for ${failure.url}:`, error);
     }
   }
 
+  /**
+   * Body goes to the content store; if that fails it is kept inline so the
+   * scrape is not lost (a later migration moves it). Raw bytes of non-HTML
+   * responses are stored alongside.
+   */
+  private async storeContent(result: ScrapeResult): Promise<Partial<UrlFetchRequest>> {
+    const stored: Partial<UrlFetchRequest> = { content: null, contentRef: null, rawContentRef: null };
+
+    if (result.content != null) {
+      try {
+        stored.contentRef = await this.contentStoreService.put(result.content);
+      } catch (error) {
+        this.logger.error(`Error storing content of ${result.url}, keeping it inline:`, error);
+        stored.content = result.content;
+      }
+    }
+
+    if (result.rawBody) {
+      try {
+        stored.rawContentRef = await this.contentStoreService.put(Buffer.from(result.rawBody, 'base64'));
+      } catch (error) {
+        this.logger.error(`Error storing raw body of ${result.url}:`, error);
+      }
+    }
+
+    return stored;
+  }
+
+  /**
+   * Body as served with its content type: the stored bytes for non-HTML
+   * responses, the page markup (UTF-8) for HTML
+   */
+  async getRawContent(record: UrlFetchRequest): Promise<{ body: Buffer; contentType: string } | null> {
+    if (record.rawContentRef) {
+      const body = await this.contentStoreService.getBytes(record.rawContentRef);
+      return body ? { body, contentType: record.contentType || 'application/octet-stream' } : null;
+    }
+
+    const [hydrated] = await this.contentStoreService.hydrate([record]);
+    if (hydrated?.content == null) {
+      return null;
+    }
+
+    const mime = (record.contentType || 'text/html').split(';')[0].trim();
+    return { body: Buffer.from(hydrated.content, 'utf8'), contentType: `${mime}; charset=utf-8` };
+  }
+
   async getResult(id: string): Promise<UrlFetchRequest | null> {
-    return this.repository.findById(id);
+    return this.contentStoreService.hydrateOne(await this.repository.findById(id));
   }
 
   async getLatestByUrl(url: string): Promise<UrlFetchRequest | null> {
-    return this.repository.findLatestByUrl(url);
+    return this.contentStoreService.hydrateOne(await this.repository.findLatestByUrl(url));
+  }
+
+  /**
+   * Latest success for the URL when it was fetched within maxAgeMinutes (default
+   * SCRAPE_INTERVAL_MINUTES). Otherwise the URL is scraped at interactive priority, joining
+   * a scrape already in flight, and its outcome is awaited for up to waitSeconds.
+   */
+  async getFreshContent(url: string, maxAgeMinutes: number = this.scrapeInterval, waitSeconds: number = 0): Promise<FreshContentResult> {
+    const latest = await this.repository.findLatestByUrl(url);
+    if (latest?.fetchedAt && latest.fetchedAt.getTime() >= Date.now() - maxAgeMinutes * 60 * 1000) {
+      return {
+        requestId: (latest as any)._id.toString(),
+        status: latest.status,
+        cached: true,
+        record: await this.contentStoreService.hydrateOne(latest)
+      };
+    }
+
+    const requestId = await this.requestScrape(url);
+    const finished = await this.waitUntilFinished(requestId, waitSeconds);
+    if (!finished) {
+      const current = await this.repository.findById(requestId);
+      return { requestId, status: current?.status || FetchStatus.PENDING, cached: false };
+    }
+
+    return {
+      requestId,
+      status: finished.status,
+      cached: false,
+      record: await this.contentStoreService.hydrateOne(finished)
+    };
+  }
+
+  /**
+   * ID of the open request for the URL, queuing one at interactive priority if there is none.
+   * Reads are not client submissions, so no batch is opened for them.
+   */
+  private async requestScrape(url: string): Promise<string> {
+    const priority = QueuePriority.forSubmission(ScrapePriority.INTERACTIVE);
+
+    const open = await this.repository.findOpenByUrl(url);
+    if (open) {
+      await this.expedite(open, priority);
+      return (open as any)._id.toString();
+    }
+
+    const canonicalUrl = UrlNormalizer.getCanonicalUrl(url);
+    const dispatchId = Dispatch.newId();
+    const request = await this.repository.create({
+      url: canonicalUrl,
+      status: FetchStatus.PENDING,
+      retryCount: 0,
+      priority,
+      dispatchId
+    });
+
+    const scrapeRequest: ScrapeRequest = {
+      id: (request as any)._id.toString(),
+      url: canonicalUrl,
+      dispatchId,
+      retryCount: 0,
+      priority
+    };
+
+    await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest, { priority });
+    await this.jobEventsService.publish({
+      requestId: scrapeRequest.id,
+      url: canonicalUrl,
+      status: FetchStatus.PENDING,
+      retryCount: 0
+    });
+    this.logger.log(`Queued URL for a content read: ${canonicalUrl} (ID: ${scrapeRequest.id})`);
+
+    return scrapeRequest.id;
+  }
+
+  /**
+   * A reader joining a queued request of lower priority must not wait behind bulk work.
+   * A queued message's priority cannot be changed, so it is queued again at the new one
+   * under a new dispatchId; the old message becomes stale and its reports are ignored.
+   */
+  private async expedite(open: UrlFetchRequest, priority: number): Promise<void> {
+    if ((open.priority ?? 0) >= priority) {
+      return;
+    }
+
+    const id = (open as any)._id.toString();
+    const dispatchId = Dispatch.newId();
+    const raised = await this.repository.raisePriority(id, priority, dispatchId, new Date());
+    if (!raised) {
+      return;
+    }
+
+    const scrapeRequest: ScrapeRequest = {
+      id,
+      url: raised.url,
+      dispatchId,
+      retryCount: raised.retryCount,
+      priority,
+      ignoreSelectors: raised.ignoreSelectors,
+      options: raised.scrapeOptions
+    };
+
+    try {
+      await this.rabbitMQClient.publish(QueueNames.SCRAPE_REQUESTS, scrapeRequest, { priority });
+    } catch (error) {
+      // The old message is still queued: make it current again rather than leave the request orphaned
+      await this.repository.updateIfCurrent(id, dispatchId, { priority: open.priority, dispatchId: open.dispatchId ?? null });
+      throw error;
+    }
+    this.logger.log(`⏫ Raised ${raised.url} (ID: ${id}) to priority ${priority} for a content read`);
+  }
+
+  /**
+   * The request once it is SUCCESS, FAILED or CANCELLED; null if it is still open after waitSeconds
+   */
+  private async waitUntilFinished(id: string, waitSeconds: number): Promise<UrlFetchRequest | null> {
+    const isFinished = (status: FetchStatus) =>
+      [FetchStatus.SUCCESS, FetchStatus.FAILED, FetchStatus.CANCELLED].includes(status);
+
+    if (waitSeconds <= 0) {
+      const current = await this.repository.findById(id);
+      return current && isFinished(current.status) ? current : null;
+    }
+
+    // Subscribed before the current state is read, so a transition in between is not missed
+    const finishedEvent = this.jobEventsService.stream({ ids: [id], urls: [] }).pipe(
+      filter(event => isFinished(event.status))
+    );
+    const alreadyFinished = defer(() => this.repository.findById(id)).pipe(
+      filter(current => !!current && isFinished(current.status))
+    );
+
+    const outcome = await firstValueFrom(
+      merge(finishedEvent, alreadyFinished).pipe(timeout({ first: waitSeconds * 1000, with: () => of(null) })),
+      { defaultValue: null }
+    );
+    return outcome ? this.repository.findById(id) : null;
+  }
+
+  /**
+   * One page of results; content is only loaded from the store when it is one of the requested fields
+   */
+  async listResults(
+    filter: ResultFilter,
+    sort: ResultSort,
+    limit: number,
+    after?: ResultCursorPosition,
+    fields?: string[]
+  ): Promise<ResultPage<UrlFetchRequest>> {
+    // One extra record tells whether there is a next page
+    const records = await this.repository.findPage(filter, sort, limit + 1, after, fields);
+    const items = records.slice(0, limit);
+    const nextCursor = records.length > limit ? ResultCursor.encode(sort, items[items.length - 1]) : null;
+
+    return {
+      items: fields?.includes('content') ? await this.contentStoreService.hydrate(items) : items,
+      nextCursor
+    };
   }
 
-  async getAllResults(filter: any = {}, limit: number = 50, offset: number = 0): Promise<UrlFetchRequest[]> {
-    return this.repository.findAll(filter, limit, offset);
+  async migrateInlineContent(limit: number): Promise<ContentMigrationResult> {
+    return this.contentStoreService.migrateInlineContent(limit);
   }
 
   async getUrlHistory(url: string): Promise<UrlFetchRequest[]> {
@@ -236,6 +705,10 @@ export class UrlContentService {
         await this.handleScrapeFailure(message);
       });
 
+      await this.rabbitMQClient.consume(QueueNames.REQUEST_DEATHS, async (message: ScrapeRequest, headers) => {
+        await this.handleDeadLetteredRequest(message, headers);
+      });
+
       this.logger.log('Message consumers started');
     } catch (error) {
       this.logger.error('Failed to start consumers:', error);
@@ -243,6 +716,118 @@ export class UrlContentService {
     }
   }
 
+  /**
+   * A scrape request that expired in the queue or was rejected by the scraper. Nothing else
+   * would ever report on it, so its record is failed here instead of staying PENDING.
+   */
+  async handleDeadLetteredRequest(request: ScrapeRequest, headers: Record<string, any>): Promise<void> {
+    const record = await this.repository.findById(request.id);
+
+    // Finished meanwhile, or an older attempt dying after a newer one was queued
+    if (!Dispatch.isCurrent(record, request.dispatchId) || (request.retryCount || 0) < record.retryCount) {
+      return;
+    }
+
+    await this.handleScrapeFailure({
+      id: request.id,
+      url: request.url,
+      dispatchId: request.dispatchId,
+      errorMessage: DeadLetterHeaders.summary(DeadLetterHeaders.describe(headers)),
+      retryCount: record.retryCount,
+      maxRetries: this.configService.get<number>('MAX_RETRIES', 3),
+      canRetry: false,
+      category: FailureCategory.DEAD_LETTERED,
+      failedAt: new Date()
+    });
+  }
+
+  /**
+   * Cancel a request that has not finished yet. Scrapers are told over the control
+   * exchange so they drop it from their queue or abort it mid-flight.
+   * Null when the request is unknown or already finished.
+   */
+  async cancelRequest(id: string): Promise<UrlFetchRequest | null> {
+    const record = await this.repository.cancel(id);
+    if (!record) {
+      return null;
+    }
+
+    this.logger.log(`🛑 Cancelled ${record.url}`);
+    await this.broadcastCancel([id]);
+    await this.finishCancelled(record);
+    return record;
+  }
+
+  /**
+   * Cancel every unfinished member of a batch; returns how many were cancelled
+   */
+  async cancelBatch(batchId: string): Promise<number> {
+    const cancelled: UrlFetchRequest[] = [];
+    for (const id of await this.repository.findOpenIdsByBatch(batchId)) {
+      const record = await this.repository.cancel(id);
+      if (record) {
+        cancelled.push(record);
+      }
+    }
+
+    if (cancelled.length) {
+      this.logger.log(`🛑 Cancelled ${cancelled.length} request(s) of batch ${batchId}`);
+      await this.broadcastCancel(cancelled.map(record => (record as any)._id.toString()));
+      for (const record of cancelled) {
+        await this.finishCancelled(record);
+      }
+    }
+
+    return cancelled.length;
+  }
+
+  private async isCurrentDispatch(id: string, dispatchId?: string): Promise<boolean> {
+    return Dispatch.isCurrent(await this.repository.findById(id), dispatchId);
+  }
+
+  // The record is already cancelled, so a scraper that misses this still has its result ignored
+  private async broadcastCancel(requestIds: string[]): Promise<void> {
+    try {
+      await this.rabbitMQClient.broadcast<ScraperControlMessage>(ExchangeNames.SCRAPER_CONTROL, {
+        action: ControlAction.CANCEL,
+        requestIds,
+        sentAt: new Date().toISOString()
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to notify scrapers of cancelled requests: ${error.message}`);
+    }
+  }
+
+  private async finishCancelled(record: UrlFetchRequest): Promise<void> {
+    const id = (record as any)._id.toString();
+
+    if (record.crawlId) {
+      await this.crawlService.handlePageCancelled(id);
+    }
+
+    if (record.scheduleId) {
+      await this.scheduleService.handleRunFinished(record.scheduleId.toString(), id, FetchStatus.CANCELLED);
+    }
+
+    if (record.batchId) {
+      await this.batchService.handleMemberFinished(record.batchId.toString());
+    }
+
+    await this.jobEventsService.publish({
+      requestId: id,
+      url: record.url,
+      status: FetchStatus.CANCELLED,
+      retryCount: record.retryCount
+    });
+    await this.webhookService.notify(record);
+  }
+
+  async getQueueStats(): Promise<ScrapeQueueStats> {
+    const { messageCount, consumerCount } = await this.rabbitMQClient.getQueueInfo(QueueNames.SCRAPE_REQUESTS);
+    const byPriority = await this.repository.countPendingByPriority();
+    return { messageCount, consumerCount, byPriority };
+  }
+
   /**
    * Cleanup stale pending requests (useful for maintenance)
    */
@@ -252,10 +837,20 @@ export class UrlContentService {
     
     let cleaned = 0;
     for (const request of staleRequests) {
-      await this.repository.update((request as any)._id.toString(), {
+      const id = (request as any)._id.toString();
+      await this.repository.update(id, {
         status: FetchStatus.FAILED,
         errorMessage: 'Request timed out - no response from scraper'
       });
+      if (request.crawlId) {
+        await this.crawlService.handlePageFinished(id, false);
+      }
+      if (request.scheduleId) {
+        await this.scheduleService.handleRunFinished(request.scheduleId.toString(), id, FetchStatus.FAILED);
+      }
+      if (request.batchId) {
+        await this.batchService.handleMemberFinished(request.batchId.toString());
+      }
       cleaned++;
     }
     
@@ -290,19 +885,38 @@ export class UrlContentService {
       // Find FAILED records with content
       const failedWithContent = await this.repository.findAll({ 
         status: FetchStatus.FAILED,
-        content: { $ne: null, $exists: true }
+        $or: [
+          { content: { $ne: null, $exists: true } },
+          { contentRef: { $ne: null, $exists: true } },
+          { rawContentRef: { $ne: null, $exists: true } }
+        ]
       }, 100, 0);
       
       for (const record of failedWithContent) {
         await this.repository.update((record as any)._id.toString(), {
           content: null,
+          contentRef: null,
+          rawContentRef: null,
+          contentKind: null,
           contentType: null,
-          contentHash: null
+          contentHash: null,
+          textHash: null,
+          textContent: null,
+          markdown: null,
+          wordCount: null,
+          metadata: null,
+          robotsDirectives: null,
+          changeStatus: null,
+          changeRatio: null,
+          previousRequestId: null
         });
         fixed++;
         this.logger.log(`Fixed FAILED record with content: ${record.url}`);
       }
       
+      // Records from before host and domain were stored
+      fixed += await this.repository.backfillSites(500);
+
       if (fixed > 0) {
         this.logger.log(`Fixed ${fixed} data inconsistencies`);
       }
@@ -0,0 +1,101 @@
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { FetchStatus } from '../interfaces/scrape.interface';
+import { WebhookDeliveryStatus } from '../interfaces/webhook.interface';
+
+describe('WebhookService', () => {
+  let server: Server;
+  let port: number;
+  let received: IncomingMessage[];
+
+  beforeAll(async () => {
+    Logger.overrideLogger(false);
+    server = createServer((request, response) => {
+      received.push(request);
+      response.end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  /**
+   * Notify for a finished request and resolve with the update recorded for the first attempt
+   */
+  const deliver = async (callbackUrl: string, allowedHosts = ''): Promise<Record<string, any>> => {
+    let recorded: (update: Record<string, any>) => void;
+    const outcome = new Promise<Record<string, any>>(resolve => (recorded = resolve));
+
+    const repository = {
+      create: jest.fn(async data => ({ _id: 'delivery-id', ...data })),
+      claimDue: jest.fn(async () => ({
+        _id: 'delivery-id',
+        fetchRequestId: 'request-id',
+        callbackUrl,
+        event: 'scrape.completed',
+        payload: {},
+        attemptCount: 0
+      })),
+      recordAttempt: jest.fn(async (_id, _attempt, update) => recorded(update))
+    };
+    const settings: Record<string, string> = { WEBHOOK_ALLOWED_HOSTS: allowedHosts };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        { provide: WebhookDeliveryRepository, useValue: repository },
+        { provide: UrlFetchRequestRepository, useValue: { findCallbackSecret: jest.fn() } },
+        { provide: ConfigService, useValue: { get: (key: string, fallback?: unknown) => settings[key] ?? fallback } }
+      ]
+    }).compile();
+
+    await module.get(WebhookService).notify({
+      _id: 'request-id',
+      url: 'https://example.com/',
+      status: FetchStatus.SUCCESS,
+      callbackUrl
+    } as any);
+
+    return outcome;
+  };
+
+  describe('callback destinations', () => {
+    it('refuses a host name that resolves to a loopback address, without connecting', async () => {
+      const update = await deliver(`http://localhost:${port}/hook`);
+
+      expect(update.status).toBe(WebhookDeliveryStatus.FAILED);
+      expect(update.lastError).toMatch(/^Callback host localhost resolves to non-public address/);
+      expect(received).toHaveLength(0);
+    });
+
+    it.each(['127.0.0.1', '[::1]'])('refuses the IP literal %s', async host => {
+      const update = await deliver(`http://${host}:${port}/hook`);
+
+      expect(update.status).toBe(WebhookDeliveryStatus.FAILED);
+      expect(update.lastError).toMatch(/is not public$/);
+      expect(received).toHaveLength(0);
+    });
+
+    it('delivers to an allowed internal host under its own name', async () => {
+      const update = await deliver(`http://localhost:${port}/hook`, 'localhost');
+
+      expect(update.status).toBe(WebhookDeliveryStatus.DELIVERED);
+      expect(received).toHaveLength(1);
+      expect(received[0].headers.host).toBe(`localhost:${port}`);
+      expect(received[0].method).toBe('POST');
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { isIP, LookupFunction } from 'net';
+import { Types } from 'mongoose';
+import { FetchStatus } from '../interfaces/scrape.interface';
+import { WebhookDeliveryStatus, WebhookEvent, WebhookPayload } from '../interfaces/webhook.interface';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery.repository';
+import { UrlFetchRequestRepository } from '../repositories/url-fetch-request.repository';
+import { WebhookDelivery, WebhookDeliveryDocument, WebhookAttempt } from '../schemas/webhook-delivery.schema';
+import { UrlFetchRequest } from '../schemas/url-fetch-request.schema';
+import { NetworkAddress } from '../utils/network-address.util';
+
+@Injectable()
+export class WebhookService implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly timeout: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly pollInterval: number;
+  private readonly defaultSecret: string;
+  private readonly allowedHosts: Set<string>;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  // Longest pause between two attempts of one delivery
+  private static readonly MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+  private static readonly MAX_LOGGED_BODY = 500;
+
+  constructor(
+    private readonly repository: WebhookDeliveryRepository,
+    private readonly fetchRequestRepository: UrlFetchRequestRepository,
+    private readonly configService: ConfigService
+  ) {
+    this.timeout = Number(this.configService.get<number>('WEBHOOK_TIMEOUT_MS', 10000));
+    this.maxAttempts = this.configService.get<number>('WEBHOOK_MAX_ATTEMPTS', 8);
+    this.retryBaseMs = this.configService.get<number>('WEBHOOK_RETRY_BASE_SECONDS', 30) * 1000;
+    this.pollInterval = this.configService.get<number>('WEBHOOK_POLL_SECONDS', 10) * 1000;
+    this.defaultSecret = this.configService.get<string>('WEBHOOK_SIGNING_SECRET', '');
+    // Receivers on internal networks must be listed explicitly
+    this.allowedHosts = new Set(
+      this.configService.get<string>('WEBHOOK_ALLOWED_HOSTS', '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean)
+    );
+  }
+
+  startDispatcher(): void {
+    this.timer = setInterval(() => this.processDue(), this.pollInterval);
+    this.logger.log(`Webhook dispatcher started (polling every ${this.pollInterval / 1000}s)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Queue a callback for a fetch request that reached a terminal state.
+   * The first attempt is made right away without holding up the caller.
+   */
+  async notify(request: UrlFetchRequest): Promise<void> {
+    if (!request?.callbackUrl) {
+      return;
+    }
+
+    try {
+      const payload = this.buildPayload(request);
+      const delivery = await this.repository.create({
+        fetchRequestId: (request as any)._id,
+        callbackUrl: request.callbackUrl,
+        event: payload.event,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: new Date()
+      });
+
+      this.dispatch(delivery._id.toString());
+    } catch (error) {
+      this.logger.error(`Error queueing callback for request ${(request as any)._id}:`, error);
+    }
+  }
+
+  async getDeliveries(
+    filter: { status?: WebhookDeliveryStatus; fetchRequestId?: string },
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<WebhookDeliveryDocument[]> {
+    const query: any = {};
+    if (filter.status) {
+      query.status = filter.status;
+    }
+    if (filter.fetchRequestId) {
+      query.fetchRequestId = new Types.ObjectId(filter.fetchRequestId);
+    }
+
+    return this.repository.findAll(query, limit, offset);
+  }
+
+  async getDelivery(id: string): Promise<WebhookDeliveryDocument | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Send a delivery again with a fresh attempt budget, whatever its current state.
+   * The original payload is re-sent, with a new timestamp and signature.
+   */
+  async replay(id: string): Promise<WebhookDeliveryDocument | null> {
+    const delivery = await this.repository.resetForReplay(id, new Date());
+    if (!delivery) {
+      return null;
+    }
+
+    this.logger.log(`Replaying webhook delivery ${id} to ${delivery.callbackUrl}`);
+    this.dispatch(id);
+
+    return delivery;
+  }
+
+  private dispatch(id: string): void {
+    this.repository.claimDue(new Date(), this.timeout * 2, id)
+      .then(delivery => delivery && this.attempt(delivery))
+      .catch(error => this.logger.error(`Error dispatching webhook delivery ${id}:`, error));
+  }
+
+  /**
+   * Send every delivery whose retry is due. The claim in the repository keeps
+   * several API instances from sending the same attempt.
+   */
+  private async processDue(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      let delivery: WebhookDeliveryDocument | null;
+      while ((delivery = await this.repository.claimDue(new Date(), this.timeout * 2))) {
+        await this.attempt(delivery);
+      }
+    } catch (error) {
+      this.logger.error('Webhook dispatch failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * POST the payload once and record the outcome
+   * - 2xx: delivered
+   * - 410 Gone: the receiver asked us to stop, no more retries
+   * - a loopback, private or link-local destination: refused without retries
+   * - anything else: retried with exponential backoff until the attempt budget is spent
+   */
+  private async attempt(delivery: WebhookDeliveryDocument): Promise<void> {
+    const id = delivery._id.toString();
+    const body = JSON.stringify({ ...delivery.payload, deliveryId: id });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = await this.fetchRequestRepository.findCallbackSecret(delivery.fetchRequestId.toString()) || this.defaultSecret;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'UrlContentProvider-Webhook/1.0',
+      'X-Webhook-Id': id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Timestamp': timestamp
+    };
+    if (secret) {
+      headers['X-Webhook-Signature'] = `sha256=${this.sign(secret, timestamp, body)}`;
+    }
+
+    const startedAt = Date.now();
+    const attempt: WebhookAttempt = { attemptedAt: new Date(startedAt), durationMs: 0 };
+    let refused = false;
+
+    try {
+      const response = await this.post(delivery.callbackUrl, headers, body, reason => {
+        refused = true;
+        attempt.error = reason;
+      });
+
+      attempt.httpStatus = response.status;
+      attempt.responseBody = response.body;
+      if (response.status < 200 || response.status >= 300) {
+        attempt.error = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      if (!refused) {
+        attempt.error = ['AbortError', 'TimeoutError'].includes(error.name) ? `Timed out after ${this.timeout}ms` : error.message;
+      }
+    }
+    attempt.durationMs = Date.now() - startedAt;
+
+    const attemptNumber = delivery.attemptCount + 1;
+
+    if (!attempt.error) {
+      await this.repository.recordAttempt(id, attempt, {
+        status: WebhookDeliveryStatus.DELIVERED,
+        deliveredAt: new Date(),
+        nextAttemptAt: null,
+        lastError: null
+      });
+      this.logger.log(`📨 Delivered ${delivery.event} for request ${delivery.fetchRequestId} to ${delivery.callbackUrl} (attempt ${attemptNumber})`);
+      return;
+    }
+
+    const giveUp = refused || attempt.httpStatus === 410 || attemptNumber >= this.maxAttempts;
+    const update: Partial<WebhookDelivery> = { lastError: attempt.error };
+
+    if (giveUp) {
+      update.status = WebhookDeliveryStatus.FAILED;
+      update.nextAttemptAt = null;
+      this.logger.warn(`❌ Webhook delivery ${id} to ${delivery.callbackUrl} failed permanently after ${attemptNumber} attempts: ${attempt.error}`);
+    } else {
+      const backoff = Math.min(this.retryBaseMs * 2 ** (attemptNumber - 1), WebhookService.MAX_BACKOFF_MS);
+      update.nextAttemptAt = new Date(Date.now() + backoff);
+      this.logger.warn(`🔄 Webhook delivery ${id} to ${delivery.callbackUrl} failed (${attempt.error}), retrying in ${Math.round(backoff / 1000)}s`);
+    }
+
+    await this.repository.recordAttempt(id, attempt, update);
+  }
+
+  /**
+   * POST without following redirects. Only public addresses are connected to, unless the host
+   * is in WEBHOOK_ALLOWED_HOSTS; onRefused is called with the reason when the destination is not.
+   */
+  private post(
+    callbackUrl: string,
+    headers: Record<string, string>,
+    body: string,
+    onRefused: (reason: string) => void
+  ): Promise<{ status: number; body: string }> {
+    const url = new URL(callbackUrl);
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+    // IP literals are connected to without a lookup, so they are checked here
+    if (isIP(hostname) && !this.allowedHosts.has(hostname) && !NetworkAddress.isPublic(hostname)) {
+      const reason = `Callback address ${hostname} is not public`;
+      onRefused(reason);
+      return Promise.reject(new Error(reason));
+    }
+
+    const client = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: this.vettedLookup(onRefused),
+        signal: AbortSignal.timeout(this.timeout)
+      }, response => {
+        let received = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (received.length < WebhookService.MAX_LOGGED_BODY) {
+            received += chunk;
+          }
+        });
+        response.on('end', () => resolve({ status: response.statusCode, body: received.substring(0, WebhookService.MAX_LOGGED_BODY) }));
+        response.on('error', reject);
+      });
+
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * DNS lookup for the callback connection. The addresses vetted are the ones connected to,
+   * so a host cannot pass a check with a public address and then rebind to an internal one.
+   * The URL keeps its hostname, which stays the Host header and the TLS server name.
+   */
+  private vettedLookup(onRefused: (reason: string) => void): LookupFunction {
+    return ((hostname: string, options: LookupOptions, callback: (...args: any[]) => void) => {
+      dnsLookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+
+        const host = hostname.toLowerCase();
+        const blocked = !this.allowedHosts.has(host) && addresses.find(({ address }) => !NetworkAddress.isPublic(address));
+        if (blocked) {
+          const reason = `Callback host ${host} resolves to non-public address ${blocked.address}`;
+          onRefused(reason);
+          callback(new Error(reason));
+          return;
+        }
+
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    }) as LookupFunction;
+  }
+
+  private buildPayload(request: UrlFetchRequest): WebhookPayload {
+    const succeeded = request.status === FetchStatus.SUCCESS;
+
+    return {
+      event: succeeded ? WebhookEvent.SCRAPE_COMPLETED :
+        request.status === FetchStatus.CANCELLED ? WebhookEvent.SCRAPE_CANCELLED : WebhookEvent.SCRAPE_FAILED,
+      requestId: (request as any)._id.toString(),
+      url: request.url,
+      status: request.status,
+      finalUrl: request.finalUrl,
+      httpStatus: request.httpStatus,
+      fetchedAt: request.fetchedAt,
+      contentHash: succeeded ? request.contentHash : undefined,
+      changeStatus: succeeded ? request.changeStatus : undefined,
+      changeRatio: succeeded ? request.changeRatio : undefined,
+      errorMessage: succeeded ? undefined : request.errorMessage,
+      failureCategory: succeeded ? undefined : request.failureCategory
+    };
+  }
+
+  /**
+   * Signature over "<timestamp>.<body>" so receivers can reject replayed requests
+   */
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
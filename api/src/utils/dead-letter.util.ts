@@ -0,0 +1,59 @@
+import { DeadLetterInfo } from '../interfaces/dead-letter.interface';
+import { RabbitMQUtil } from './rabbitmq.util';
+
+export class DeadLetterHeaders {
+  /**
+   * Why and when a message was dead-lettered, from the x-death entries the broker adds
+   * or the error headers RabbitMQUtil sets when a handler throws
+   */
+  static describe(headers: Record<string, any> = {}): DeadLetterInfo {
+    // Expiring out of a retry delay queue is how delayed retries are delivered, not a failure
+    const deaths: any[] = (Array.isArray(headers['x-death']) ? headers['x-death'] : [])
+      .filter(death => !/\.delay\.\d+s$/.test(death.queue || ''));
+    const deathCount = deaths.reduce((total, death) => total + (Number(death.count) || 1), 0);
+    const error = headers[RabbitMQUtil.ERROR_HEADER];
+
+    if (error) {
+      const at = headers[RabbitMQUtil.ERROR_TIME_HEADER];
+      return {
+        reason: 'error',
+        error: `${error}`,
+        deadLetteredAt: at ? new Date(at) : undefined,
+        deathCount: deathCount + 1
+      };
+    }
+
+    // Most recent death first
+    const latest = deaths[0];
+    if (!latest) {
+      return { reason: 'unknown', deathCount: 0 };
+    }
+
+    return {
+      reason: `${latest.reason}`,
+      queue: latest.queue,
+      deadLetteredAt: this.toDate(latest.time),
+      deathCount
+    };
+  }
+
+  static summary(info: DeadLetterInfo): string {
+    const queue = info.queue || 'the queue';
+    switch (info.reason) {
+      case 'error':
+        return `Consumer failed: ${info.error}`;
+      case 'expired':
+        return `Expired while waiting in ${queue}`;
+      case 'rejected':
+        return `Rejected by the consumer of ${queue}`;
+      default:
+        return `Dead-lettered from ${queue} (${info.reason})`;
+    }
+  }
+
+  // AMQP timestamps are seconds; amqplib may wrap them in a typed value
+  private static toDate(time: any): Date | undefined {
+    const seconds = typeof time === 'object' && time !== null ? time.value : time;
+    return typeof seconds === 'number' ? new Date(seconds * 1000) : undefined;
+  }
+}
@@ -0,0 +1,31 @@
+import { Dispatch } from './dispatch.util';
+import { FetchStatus } from '../interfaces/scrape.interface';
+
+describe('Dispatch', () => {
+  it.each([
+    [FetchStatus.PENDING, 'a', 'a', true],
+    [FetchStatus.PROCESSING, 'a', 'a', true],
+    [FetchStatus.PENDING, 'b', 'a', false],
+    [FetchStatus.SUCCESS, 'a', 'a', false],
+    [FetchStatus.FAILED, 'a', 'a', false],
+    [FetchStatus.CANCELLED, 'a', 'a', false],
+    [FetchStatus.PENDING, undefined, undefined, true],
+    [FetchStatus.PENDING, 'a', undefined, false],
+    [FetchStatus.PENDING, undefined, 'a', false]
+  ])('a %s record with dispatch %s is current for message %s: %s', (status, recordDispatch, messageDispatch, current) => {
+    expect(Dispatch.isCurrent({ status, dispatchId: recordDispatch }, messageDispatch)).toBe(current);
+  });
+
+  it('is never current for an unknown record', () => {
+    expect(Dispatch.isCurrent(null, 'a')).toBe(false);
+  });
+
+  it('queries open records by dispatchId, matching a missing one for untagged messages', () => {
+    expect(Dispatch.currentFilter('id', 'a')).toEqual({ _id: 'id', status: { $in: [FetchStatus.PENDING, FetchStatus.PROCESSING] }, dispatchId: 'a' });
+    expect(Dispatch.currentFilter('id').dispatchId).toBeNull();
+  });
+
+  it('issues a new id every time', () => {
+    expect(Dispatch.newId()).not.toBe(Dispatch.newId());
+  });
+});
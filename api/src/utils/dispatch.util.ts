@@ -0,0 +1,28 @@
+import { randomUUID } from 'crypto';
+import { FetchStatus } from '../interfaces/scrape.interface';
+
+/**
+ * Every time a request is queued it gets a new dispatchId, stored on the record and carried
+ * by the message. Only reports for the record's current dispatch may change it: a late
+ * duplicate (an older retry, a message re-queued at a higher priority, a replayed dead letter)
+ * finds a finished record or a different token and is ignored.
+ */
+export class Dispatch {
+  static readonly OPEN_STATUSES = [FetchStatus.PENDING, FetchStatus.PROCESSING];
+
+  static newId(): string {
+    return randomUUID();
+  }
+
+  static isCurrent(record: { status: FetchStatus; dispatchId?: string } | null, dispatchId?: string): boolean {
+    return !!record && this.OPEN_STATUSES.includes(record.status) && (record.dispatchId ?? null) === (dispatchId ?? null);
+  }
+
+  /**
+   * Query for the record while the message is its current dispatch. Messages queued before
+   * tokens existed carry none and only match records that have none either.
+   */
+  static currentFilter(id: string, dispatchId?: string): Record<string, any> {
+    return { _id: id, status: { $in: this.OPEN_STATUSES }, dispatchId: dispatchId ?? null };
+  }
+}
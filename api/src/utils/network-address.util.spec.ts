@@ -0,0 +1,33 @@
+import { NetworkAddress } from './network-address.util';
+
+describe('NetworkAddress', () => {
+  describe('isPublic', () => {
+    it.each([
+      ['127.0.0.1', 'IPv4 loopback'],
+      ['10.1.2.3', '10/8'],
+      ['172.20.0.1', '172.16/12'],
+      ['192.168.1.1', '192.168/16'],
+      ['169.254.169.254', 'link-local metadata endpoint'],
+      ['100.64.0.1', 'carrier-grade NAT'],
+      ['0.0.0.0', 'unspecified'],
+      ['224.0.0.1', 'multicast'],
+      ['::1', 'IPv6 loopback'],
+      ['fe80::1', 'IPv6 link-local'],
+      ['fd12:3456::1', 'IPv6 unique local'],
+      ['::ffff:127.0.0.1', 'IPv4-mapped loopback'],
+      ['not-an-ip', 'a hostname']
+    ])('rejects %s (%s)', address => {
+      expect(NetworkAddress.isPublic(address)).toBe(false);
+    });
+
+    it.each([
+      '8.8.8.8',
+      '1.1.1.1',
+      '172.32.0.1',
+      '2606:4700:4700::1111',
+      '::ffff:93.184.216.34'
+    ])('accepts %s', address => {
+      expect(NetworkAddress.isPublic(address)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { BlockList, isIP } from 'net';
+
+export class NetworkAddress {
+  // Loopback, private, link-local and other ranges that never belong to a public receiver
+  private static readonly NON_PUBLIC = NetworkAddress.buildBlockList();
+
+  /**
+   * Whether an IP literal is a public unicast address.
+   * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are judged by their IPv4 part.
+   */
+  static isPublic(address: string): boolean {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    const ip = mapped ? mapped[1] : address;
+    const family = isIP(ip);
+
+    if (family === 0) {
+      return false;
+    }
+
+    return !NetworkAddress.NON_PUBLIC.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  private static buildBlockList(): BlockList {
+    const list = new BlockList();
+
+    list.addSubnet('0.0.0.0', 8, 'ipv4');        // "this" network
+    list.addSubnet('10.0.0.0', 8, 'ipv4');       // private
+    list.addSubnet('100.64.0.0', 10, 'ipv4');    // carrier-grade NAT
+    list.addSubnet('127.0.0.0', 8, 'ipv4');      // loopback
+    list.addSubnet('169.254.0.0', 16, 'ipv4');   // link-local, cloud metadata
+    list.addSubnet('172.16.0.0', 12, 'ipv4');    // private
+    list.addSubnet('192.0.0.0', 24, 'ipv4');     // IETF protocol assignments
+    list.addSubnet('192.168.0.0', 16, 'ipv4');   // private
+    list.addSubnet('198.18.0.0', 15, 'ipv4');    // benchmarking
+    list.addSubnet('224.0.0.0', 4, 'ipv4');      // multicast
+    list.addSubnet('240.0.0.0', 4, 'ipv4');      // reserved, broadcast
+
+    list.addAddress('::', 'ipv6');               // unspecified
+    list.addAddress('::1', 'ipv6');              // loopback
+    list.addSubnet('64:ff9b::', 96, 'ipv6');     // NAT64 of any IPv4 address
+    list.addSubnet('fc00::', 7, 'ipv6');         // unique local
+    list.addSubnet('fe80::', 10, 'ipv6');        // link-local
+    list.addSubnet('ff00::', 8, 'ipv6');         // multicast
+
+    return list;
+  }
+}
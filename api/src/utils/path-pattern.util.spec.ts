@@ -0,0 +1,37 @@
+import { PathPattern } from './path-pattern.util';
+
+describe('PathPattern', () => {
+  describe('matches', () => {
+    it.each([
+      ['https://example.com/blog/2024/post?page=2', '/blog/*', true],
+      ['https://example.com/blog', '/blog/*', false],
+      ['https://example.com/news/blog/post', '/blog/*', false],
+      ['https://example.com/news/blog/post', 'blog/', true],
+      ['https://example.com/products/42/reviews', '/products/*/reviews', true],
+      ['https://example.com/search?q=term', '?q=', true],
+      ['https://example.com/file.pdf', '/file.pdf', true],
+      ['https://example.com/fileXpdf', '/file.pdf', false],
+      ['https://example.com/docs', '  /docs  ', true],
+      ['not a url', '*', false]
+    ])('%s against %s: %s', (url, pattern, matched) => {
+      expect(PathPattern.matches(url, pattern)).toBe(matched);
+    });
+  });
+
+  describe('isAllowed', () => {
+    const include = ['/docs/*', '/blog/*'];
+    const exclude = ['/docs/archive/*', '?print='];
+
+    it.each([
+      ['https://example.com/docs/intro', include, exclude, true],
+      ['https://example.com/blog/post', include, exclude, true],
+      ['https://example.com/about', include, exclude, false],
+      ['https://example.com/docs/archive/2019', include, exclude, false],
+      ['https://example.com/docs/intro?print=1', include, exclude, false],
+      ['https://example.com/about', [], exclude, true],
+      ['https://example.com/anything', [], [], true]
+    ])('%s', (url, includePatterns, excludePatterns, allowed) => {
+      expect(PathPattern.isAllowed(url, includePatterns, excludePatterns)).toBe(allowed);
+    });
+  });
+});
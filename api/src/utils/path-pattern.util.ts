@@ -0,0 +1,34 @@
+export class PathPattern {
+  /**
+   * Check whether a URL's path (with query) matches a glob-style pattern
+   * - `*` matches any run of characters, including `/`
+   * - Patterns without a leading `/` match anywhere in the path
+   * - Example: `/blog/*` matches `/blog/2024/post?page=2`
+   */
+  static matches(url: string, pattern: string): boolean {
+    let path: string;
+    try {
+      const urlObj = new URL(url);
+      path = `${urlObj.pathname}${urlObj.search}`;
+    } catch {
+      return false;
+    }
+
+    const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    const anchored = pattern.trim().startsWith('/') ? `^${escaped}` : escaped;
+
+    return new RegExp(anchored).test(path);
+  }
+
+  /**
+   * A URL is allowed when it matches at least one include pattern (if any are given)
+   * and none of the exclude patterns
+   */
+  static isAllowed(url: string, includePatterns: string[] = [], excludePatterns: string[] = []): boolean {
+    if (includePatterns.length > 0 && !includePatterns.some(pattern => this.matches(url, pattern))) {
+      return false;
+    }
+
+    return !excludePatterns.some(pattern => this.matches(url, pattern));
+  }
+}
@@ -0,0 +1,150 @@
+import { QueueMigration } from './queue-migration.util';
+import { RabbitMQUtil } from './rabbitmq.util';
+import { QueueNames, ScrapePriority } from '../interfaces/scrape.interface';
+import { QueuePriority } from './queue-priority.util';
+
+interface FakeQueue {
+  arguments: Record<string, unknown>;
+  messages: { content: Buffer; properties: Record<string, any> }[];
+  consumerCount: number;
+}
+
+/**
+ * Just enough of a broker: redeclaring a queue with other arguments fails with
+ * PRECONDITION_FAILED and closes the channel, as RabbitMQ does
+ */
+class FakeBroker {
+  readonly queues = new Map<string, FakeQueue>();
+
+  declare(name: string, args: Record<string, unknown> = {}, bodies: string[] = [], properties: Record<string, any> = {}): void {
+    this.queues.set(name, {
+      arguments: args,
+      messages: bodies.map(body => ({ content: Buffer.from(body), properties })),
+      consumerCount: 0
+    });
+  }
+
+  bodies(name: string): string[] {
+    return this.queues.get(name).messages.map(message => message.content.toString());
+  }
+
+  async createChannel(): Promise<any> {
+    let closed = false;
+    const open = () => {
+      if (closed) {
+        throw new Error('Channel closed');
+      }
+    };
+
+    return {
+      assertQueue: async (name: string, options: { arguments?: Record<string, unknown> }) => {
+        open();
+        const args = options.arguments || {};
+        const existing = this.queues.get(name);
+        if (existing && JSON.stringify(existing.arguments) !== JSON.stringify(args)) {
+          closed = true;
+          throw Object.assign(new Error('PRECONDITION_FAILED'), { code: 406 });
+        }
+        if (!existing) {
+          this.declare(name, args);
+        }
+      },
+      checkQueue: async (name: string) => {
+        open();
+        const queue = this.queues.get(name);
+        return { messageCount: queue.messages.length, consumerCount: queue.consumerCount };
+      },
+      get: async (name: string) => {
+        open();
+        return this.queues.get(name).messages.shift() || false;
+      },
+      sendToQueue: (name: string, content: Buffer, properties: Record<string, any>) => {
+        open();
+        this.queues.get(name).messages.push({ content, properties });
+      },
+      waitForConfirms: async () => open(),
+      ack: () => open(),
+      deleteQueue: async (name: string, options: { ifEmpty?: boolean }) => {
+        open();
+        if (options.ifEmpty && this.queues.get(name).messages.length) {
+          throw new Error('PRECONDITION_FAILED - queue not empty');
+        }
+        this.queues.delete(name);
+      },
+      close: async () => {
+        open();
+        closed = true;
+      }
+    };
+  }
+
+  async createConfirmChannel(): Promise<any> {
+    return this.createChannel();
+  }
+}
+
+describe('QueueMigration', () => {
+  const OLD_ARGUMENTS = { 'x-message-ttl': 3600000 };
+  let broker: FakeBroker;
+
+  beforeEach(() => {
+    broker = new FakeBroker();
+  });
+
+  it('re-declares queues from an earlier version and keeps their messages', async () => {
+    for (const queue of RabbitMQUtil.SCRAPE_QUEUES) {
+      broker.declare(queue, OLD_ARGUMENTS);
+    }
+    broker.declare(QueueNames.SCRAPE_RESULTS, OLD_ARGUMENTS, ['first', 'second'], { messageId: 'kept' });
+
+    const migrated = await QueueMigration.run(broker, () => undefined);
+
+    expect(migrated).toEqual(RabbitMQUtil.SCRAPE_QUEUES);
+    for (const queue of RabbitMQUtil.SCRAPE_QUEUES) {
+      expect(broker.queues.get(queue).arguments).toEqual(RabbitMQUtil.scrapeQueueArguments(queue));
+      expect(broker.queues.has(QueueMigration.holdingQueue(queue))).toBe(false);
+    }
+    expect(broker.bodies(QueueNames.SCRAPE_RESULTS)).toEqual(['first', 'second']);
+    expect(broker.queues.get(QueueNames.SCRAPE_RESULTS).messages[0].properties).toEqual({ messageId: 'kept' });
+  });
+
+  it('queues earlier requests at normal priority and keeps the priority of later ones', async () => {
+    broker.declare(QueueNames.SCRAPE_REQUESTS, OLD_ARGUMENTS, ['unprioritised']);
+    broker.queues.get(QueueNames.SCRAPE_REQUESTS).messages.push({ content: Buffer.from('interactive'), properties: { priority: 9 } });
+
+    await QueueMigration.run(broker, () => undefined);
+
+    const queue = broker.queues.get(QueueNames.SCRAPE_REQUESTS);
+    expect(queue.arguments['x-max-priority']).toBe(RabbitMQUtil.MAX_PRIORITY);
+    expect(queue.messages.map(message => message.properties.priority)).toEqual([
+      QueuePriority.forSubmission(ScrapePriority.NORMAL),
+      9
+    ]);
+  });
+
+  it('leaves current queues alone', async () => {
+    for (const queue of RabbitMQUtil.SCRAPE_QUEUES) {
+      broker.declare(queue, RabbitMQUtil.scrapeQueueArguments(queue), ['waiting']);
+    }
+
+    expect(await QueueMigration.run(broker, () => undefined)).toEqual([]);
+    expect(broker.bodies(QueueNames.SCRAPE_REQUESTS)).toEqual(['waiting']);
+  });
+
+  it('finishes a run that stopped after the queue was re-declared', async () => {
+    broker.declare(QueueNames.SCRAPE_STARTED, RabbitMQUtil.scrapeQueueArguments(QueueNames.SCRAPE_STARTED));
+    broker.declare(QueueMigration.holdingQueue(QueueNames.SCRAPE_STARTED), {}, ['held']);
+
+    expect(await QueueMigration.run(broker, () => undefined)).toEqual([]);
+    expect(broker.bodies(QueueNames.SCRAPE_STARTED)).toEqual(['held']);
+    expect(broker.queues.has(QueueMigration.holdingQueue(QueueNames.SCRAPE_STARTED))).toBe(false);
+  });
+
+  it('refuses to delete a queue that is still consumed', async () => {
+    broker.declare(QueueNames.SCRAPE_REQUESTS, OLD_ARGUMENTS, ['waiting']);
+    broker.queues.get(QueueNames.SCRAPE_REQUESTS).consumerCount = 1;
+
+    await expect(QueueMigration.run(broker, () => undefined)).rejects.toThrow('stop the API and scrapers first');
+    expect(broker.bodies(QueueNames.SCRAPE_REQUESTS)).toEqual(['waiting']);
+  });
+});
@@ -0,0 +1,118 @@
+import { QueueNames } from '../interfaces/scrape.interface';
+import { RabbitMQUtil } from './rabbitmq.util';
+import { QueuePriority } from './queue-priority.util';
+
+/**
+ * Re-declares scrape queues created by an earlier version with the arguments RabbitMQUtil
+ * declares now. RabbitMQ cannot change the arguments of an existing queue, so an outdated queue
+ * is emptied into `<queue>.migrating`, deleted, declared again and refilled. A run that stops
+ * halfway is finished by running it again. Consumers and publishers must be stopped first.
+ *
+ * Priority (`x-max-priority` on scrape.requests) cannot be set by a policy, which is why the
+ * queues are re-declared rather than reconfigured in place.
+ */
+export class QueueMigration {
+  static holdingQueue(queue: QueueNames): string {
+    return `${queue}.migrating`;
+  }
+
+  /**
+   * @param connection An amqplib connection
+   * @returns The queues that were re-declared
+   */
+  static async run(connection: any, log: (line: string) => void = console.log): Promise<QueueNames[]> {
+    const migrated: QueueNames[] = [];
+
+    for (const queue of RabbitMQUtil.SCRAPE_QUEUES) {
+      if (!(await this.isCurrent(connection, queue))) {
+        await this.redeclare(connection, queue, log);
+        migrated.push(queue);
+      }
+      await this.refill(connection, queue, log);
+    }
+
+    return migrated;
+  }
+
+  // A declaration with other arguments closes its channel, so each check gets a channel of its own
+  private static async isCurrent(connection: any, queue: QueueNames): Promise<boolean> {
+    const channel = await connection.createChannel();
+    try {
+      await channel.assertQueue(queue, { durable: true, arguments: RabbitMQUtil.scrapeQueueArguments(queue) });
+    } catch (error) {
+      if (error?.code === 406) {
+        return false;
+      }
+      throw error;
+    }
+
+    await channel.close();
+    return true;
+  }
+
+  private static async redeclare(connection: any, queue: QueueNames, log: (line: string) => void): Promise<void> {
+    const channel = await connection.createConfirmChannel();
+    try {
+      const { consumerCount } = await channel.checkQueue(queue);
+      if (consumerCount > 0) {
+        throw new Error(`${queue} still has ${consumerCount} consumer(s); stop the API and scrapers first`);
+      }
+
+      const holding = this.holdingQueue(queue);
+      await channel.assertQueue(holding, { durable: true });
+      const held = await this.moveMessages(channel, queue, holding);
+
+      // ifEmpty: a message published since it was emptied is not deleted with it
+      await channel.deleteQueue(queue, { ifEmpty: true });
+      await channel.assertQueue(queue, { durable: true, arguments: RabbitMQUtil.scrapeQueueArguments(queue) });
+      log(`${queue}: re-declared, ${held} message(s) held in ${holding}`);
+    } finally {
+      await channel.close();
+    }
+  }
+
+  private static async refill(connection: any, queue: QueueNames, log: (line: string) => void): Promise<void> {
+    const channel = await connection.createConfirmChannel();
+    try {
+      const holding = this.holdingQueue(queue);
+      await channel.assertQueue(holding, { durable: true });
+      const moved = await this.moveMessages(channel, holding, queue, properties =>
+        queue === QueueNames.SCRAPE_REQUESTS ? this.withPriority(properties) : properties
+      );
+      await channel.deleteQueue(holding, { ifEmpty: true });
+
+      if (moved) {
+        log(`${queue}: ${moved} message(s) moved back from ${holding}`);
+      }
+    } finally {
+      await channel.close();
+    }
+  }
+
+  /**
+   * Requests queued before priorities existed carry none and would count as 0, behind
+   * every bulk request and retry; they were ordinary submissions, so they get the normal level
+   */
+  private static withPriority(properties: Record<string, any>): Record<string, any> {
+    return { ...properties, priority: properties.priority ?? QueuePriority.forSubmission() };
+  }
+
+  private static async moveMessages(
+    channel: any,
+    from: string,
+    to: string,
+    mapProperties: (properties: Record<string, any>) => Record<string, any> = properties => properties
+  ): Promise<number> {
+    let moved = 0;
+
+    for (let msg = await channel.get(from, { noAck: false }); msg; msg = await channel.get(from, { noAck: false })) {
+      channel.sendToQueue(to, msg.content, mapProperties(msg.properties));
+      // Only removed from the source once the broker has confirmed the copy
+      await channel.waitForConfirms();
+      channel.ack(msg);
+      moved++;
+    }
+
+    return moved;
+  }
+}
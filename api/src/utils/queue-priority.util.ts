@@ -0,0 +1,29 @@
+import { ScrapePriority } from '../interfaces/scrape.interface';
+import { RabbitMQUtil } from './rabbitmq.util';
+
+/**
+ * Message priorities of scrape requests (higher is delivered first):
+ * interactive 9, normal 5, scheduled 3, bulk and crawl pages 2.
+ * Each retry drops one level, so a failing URL never crowds out fresh work.
+ */
+export class QueuePriority {
+  private static readonly LEVELS: Record<ScrapePriority, number> = {
+    [ScrapePriority.INTERACTIVE]: 9,
+    [ScrapePriority.NORMAL]: 5,
+    [ScrapePriority.BULK]: 2
+  };
+
+  // Refreshes run ahead of bulk backfills but never delay user submissions
+  static readonly SCHEDULED = 3;
+  static readonly CRAWL = QueuePriority.LEVELS[ScrapePriority.BULK];
+
+  static forSubmission(priority: ScrapePriority = ScrapePriority.NORMAL): number {
+    return this.LEVELS[priority];
+  }
+
+  // Records created before priorities were stored count as normal
+  static forRetry(previous?: number): number {
+    const level = previous ?? this.LEVELS[ScrapePriority.NORMAL];
+    return Math.min(Math.max(level - 1, 1), RabbitMQUtil.MAX_PRIORITY);
+  }
+}
@@ -1,17 +1,29 @@
 import * as amqp from 'amqplib';
-import { QueueNames } from '../interfaces/scrape.interface';
+import { randomUUID } from 'crypto';
+import { QueueNames, ExchangeNames } from '../interfaces/scrape.interface';
 
 export class RabbitMQUtil {
+  // Set on our own dead letters; broker dead letters only carry x-death
+  static readonly ERROR_HEADER = 'x-error';
+  static readonly ERROR_TIME_HEADER = 'x-error-at';
+  // x-max-priority of the scrape request queue; RabbitMQ advises staying at or below 10
+  static readonly MAX_PRIORITY = 10;
+
   private connection: any = null;
   private channel: any = null;
 
-  async connect(url: string): Promise<void> {
+  /**
+   * @param prefetch Unacknowledged messages each consumer may hold, i.e. how many
+   * messages of one queue are processed concurrently
+   */
+  async connect(url: string, prefetch: number = 1): Promise<void> {
     try {
       this.connection = await amqp.connect(url);
       this.channel = await this.connection.createChannel();
       
-      // Set prefetch to enable proper load balancing across multiple workers
-      await this.channel.prefetch(1);
+      // Per-consumer limit: the broker stops delivering until a message is acked,
+      // which balances load across workers and bounds concurrency in each one
+      await this.channel.prefetch(Math.max(prefetch, 1));
       
       await this.setupQueues();
       
@@ -43,7 +55,7 @@ export class RabbitMQUtil {
     }
   }
 
-  async publish<T>(queue: QueueNames, message: T): Promise<void> {
+  async publish<T>(queue: QueueNames, message: T, options: { priority?: number } = {}): Promise<void> {
     if (!this.channel) {
       throw new Error('RabbitMQ not connected');
     }
@@ -52,6 +64,9 @@ export class RabbitMQUtil {
       const buffer = Buffer.from(JSON.stringify(message));
       const result = await this.channel.sendToQueue(queue, buffer, { 
         persistent: true,
+        // Lets a dead-lettered copy be addressed for replay
+        messageId: randomUUID(),
+        priority: options.priority,
         timestamp: Date.now()
       });
       
@@ -64,27 +79,137 @@ export class RabbitMQUtil {
     }
   }
 
+  /**
+   * Publish after a delay: the message waits in a consumer-less queue until its TTL expires and is
+   * then dead-lettered into the target queue. Each delay gets its own queue, since RabbitMQ only
+   * expires messages at the head of a queue and a shorter TTL would otherwise wait behind a longer one.
+   */
+  async publishDelayed<T>(
+    queue: QueueNames,
+    message: T,
+    delayMs: number,
+    options: { priority?: number } = {}
+  ): Promise<void> {
+    if (delayMs <= 0) {
+      return this.publish(queue, message, options);
+    }
+
+    if (!this.channel) {
+      throw new Error('RabbitMQ not connected');
+    }
+
+    // Whole seconds keep the number of delay queues small
+    const delaySeconds = Math.ceil(delayMs / 1000);
+    const delayQueue = `${queue}.delay.${delaySeconds}s`;
+
+    try {
+      await this.channel.assertQueue(delayQueue, {
+        durable: true,
+        arguments: {
+          'x-message-ttl': delaySeconds * 1000,
+          'x-dead-letter-exchange': '',
+          'x-dead-letter-routing-key': queue,
+          // Deleted once idle; every publish re-asserts it, so it outlives its last message
+          'x-expires': delaySeconds * 1000 + 60000
+        }
+      });
+
+      const buffer = Buffer.from(JSON.stringify(message));
+      // The priority survives dead-lettering into the target queue
+      const result = await this.channel.sendToQueue(delayQueue, buffer, {
+        persistent: true,
+        messageId: randomUUID(),
+        priority: options.priority,
+        timestamp: Date.now()
+      });
+
+      if (!result) {
+        throw new Error('Failed to publish message to queue');
+      }
+    } catch (error) {
+      console.error(`Failed to publish delayed message to queue ${queue}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Broadcast a transient message to every subscriber of a fanout exchange
+   */
+  async broadcast<T>(exchange: ExchangeNames, message: T): Promise<void> {
+    if (!this.channel) {
+      throw new Error('RabbitMQ not connected');
+    }
+
+    try {
+      this.channel.publish(exchange, '', Buffer.from(JSON.stringify(message)), {
+        persistent: false,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error(`Failed to broadcast message to exchange ${exchange}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Receive every broadcast on a fanout exchange through a private queue
+   * that disappears with this connection
+   */
+  async subscribe<T>(
+    exchange: ExchangeNames,
+    handler: (message: T) => void
+  ): Promise<void> {
+    if (!this.channel) {
+      throw new Error('RabbitMQ not connected');
+    }
+
+    try {
+      const { queue } = await this.channel.assertQueue('', { exclusive: true, autoDelete: true });
+      await this.channel.bindQueue(queue, exchange, '');
+      await this.channel.consume(queue, (msg: any) => {
+        if (!msg) return;
+        try {
+          handler(JSON.parse(msg.content.toString()));
+        } catch (error) {
+          console.error(`Error processing broadcast from exchange ${exchange}:`, error);
+        }
+      }, {
+        noAck: true // Broadcasts are best effort, nothing to redeliver
+      });
+    } catch (error) {
+      console.error(`Failed to subscribe to exchange ${exchange}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * @param handler Also receives the message headers (x-death and x-error on dead letters)
+   */
   async consume<T>(
     queue: QueueNames,
-    handler: (message: T) => Promise<void>
+    handler: (message: T, headers: Record<string, any>) => Promise<void>
   ): Promise<void> {
     if (!this.channel) {
       throw new Error('RabbitMQ not connected');
     }
 
     try {
+      // Up to `prefetch` deliveries run this callback concurrently
       await this.channel.consume(queue, async (msg: any) => {
-        if (msg) {
-          try {
-            const content = JSON.parse(msg.content.toString());
-            await handler(content);
-            this.channel!.ack(msg);
-          } catch (error) {
-            console.error(`Error processing message from queue ${queue}:`, error);
-            // Reject the message and don't requeue it to avoid infinite loops
-            this.channel!.nack(msg, false, false);
-          }
+        if (!msg) return;
+
+        let failure: Error | null = null;
+        try {
+          const content = JSON.parse(msg.content.toString());
+          await handler(content, msg.properties.headers || {});
+        } catch (error) {
+          console.error(`Error processing message from queue ${queue}:`, error);
+          failure = error;
         }
+
+        // Settled exactly once, outside the handler's try: acking a delivery twice closes the channel
+        // and with it every other message in flight
+        this.settle(queue, msg, failure);
       }, {
         noAck: false // Enable manual acknowledgment for reliability
       });
@@ -94,33 +219,146 @@ export class RabbitMQUtil {
     }
   }
 
+  private settle(queue: QueueNames, msg: any, failure: Error | null): void {
+    try {
+      if (!failure) {
+        this.channel.ack(msg);
+        return;
+      }
+
+      try {
+        // Dead-letter it ourselves so the error travels with it; a broker rejection only records "rejected"
+        this.channel.publish(ExchangeNames.DEAD_LETTER, queue, msg.content, {
+          ...msg.properties,
+          headers: {
+            ...msg.properties.headers,
+            [RabbitMQUtil.ERROR_HEADER]: `${failure.message || failure}`.substring(0, 1000),
+            [RabbitMQUtil.ERROR_TIME_HEADER]: new Date().toISOString()
+          }
+        });
+        this.channel.ack(msg);
+      } catch {
+        // Reject without requeueing to avoid infinite loops; the broker dead-letters it instead
+        this.channel.nack(msg, false, false);
+      }
+    } catch (error) {
+      // Channel already closed: the broker redelivers the message to another consumer
+      console.error('Failed to settle message:', error);
+    }
+  }
+
+  static readonly SCRAPE_QUEUES = [
+    QueueNames.SCRAPE_REQUESTS,
+    QueueNames.SCRAPE_STARTED,
+    QueueNames.SCRAPE_RESULTS,
+    QueueNames.SCRAPE_FAILURES
+  ];
+
+  /**
+   * RabbitMQ refuses to redeclare a queue with other arguments (PRECONDITION_FAILED), so queues
+   * created by an earlier version have to be re-declared by `npm run migrate:queues` in the API
+   */
+  static scrapeQueueArguments(queue: QueueNames): Record<string, unknown> {
+    return {
+      // Optional: Set message TTL to prevent old messages from accumulating
+      'x-message-ttl': 3600000, // 1 hour
+      // Expired and rejected messages are kept in <queue>.dead instead of being dropped
+      'x-dead-letter-exchange': ExchangeNames.DEAD_LETTER,
+      ...(queue === QueueNames.SCRAPE_REQUESTS ? { 'x-max-priority': RabbitMQUtil.MAX_PRIORITY } : {})
+    };
+  }
+
+  static deadLetterQueue(queue: QueueNames): string {
+    return `${queue}.dead`;
+  }
+
   private async setupQueues(): Promise<void> {
     if (!this.channel) return;
 
-    const queues = [
-      QueueNames.SCRAPE_REQUESTS,
-      QueueNames.SCRAPE_STARTED,
-      QueueNames.SCRAPE_RESULTS,
-      QueueNames.SCRAPE_FAILURES
-    ];
-
     try {
-      for (const queue of queues) {
-        await this.channel.assertQueue(queue, { 
-          durable: true,
-          arguments: {
-            // Optional: Set message TTL to prevent old messages from accumulating
-            'x-message-ttl': 3600000 // 1 hour
-          }
-        });
+      await this.channel.assertExchange(ExchangeNames.DEAD_LETTER, 'direct', { durable: true });
+
+      for (const queue of RabbitMQUtil.SCRAPE_QUEUES) {
+        await this.channel.assertQueue(queue, { durable: true, arguments: RabbitMQUtil.scrapeQueueArguments(queue) });
+
+        const deadLetterQueue = RabbitMQUtil.deadLetterQueue(queue);
+        await this.channel.assertQueue(deadLetterQueue, { durable: true });
+        await this.channel.bindQueue(deadLetterQueue, ExchangeNames.DEAD_LETTER, queue);
       }
+
+      // Dead scrape requests are also copied here so the API can fail their records; its own
+      // dead letters are routed to its DLQ rather than back into this queue
+      await this.channel.assertQueue(QueueNames.REQUEST_DEATHS, {
+        durable: true,
+        arguments: {
+          'x-dead-letter-exchange': ExchangeNames.DEAD_LETTER,
+          'x-dead-letter-routing-key': QueueNames.REQUEST_DEATHS
+        }
+      });
+      await this.channel.bindQueue(QueueNames.REQUEST_DEATHS, ExchangeNames.DEAD_LETTER, QueueNames.SCRAPE_REQUESTS);
+
+      const deathsDeadLetterQueue = RabbitMQUtil.deadLetterQueue(QueueNames.REQUEST_DEATHS);
+      await this.channel.assertQueue(deathsDeadLetterQueue, { durable: true });
+      await this.channel.bindQueue(deathsDeadLetterQueue, ExchangeNames.DEAD_LETTER, QueueNames.REQUEST_DEATHS);
+
+      await this.channel.assertExchange(ExchangeNames.JOB_EVENTS, 'fanout', { durable: true });
+      await this.channel.assertExchange(ExchangeNames.SCRAPER_CONTROL, 'fanout', { durable: true });
     } catch (error) {
+      if (error?.code === 406) {
+        console.error('A scrape queue was declared by an earlier version with other arguments: stop the API and scrapers and run `npm run migrate:queues` in the API');
+      }
       console.error('Failed to setup queues:', error);
       throw error;
     }
   }
 
-  async getQueueInfo(queue: QueueNames): Promise<any> {
+  /**
+   * Hold up to `limit` messages from the head of a queue on a private channel and ack (remove)
+   * the ones `select` returns; the rest go back in place. RabbitMQ cannot browse a queue, so this
+   * is how messages are listed without consuming them. Consumers on the shared channel are unaffected.
+   */
+  async takeMessages(queue: string, limit: number, select: (messages: any[]) => Promise<any[]>): Promise<void> {
+    if (!this.connection) {
+      throw new Error('RabbitMQ not connected');
+    }
+
+    const channel = await this.connection.createChannel();
+    try {
+      const messages: any[] = [];
+      while (messages.length < limit) {
+        const msg = await channel.get(queue, { noAck: false });
+        if (!msg) break;
+        messages.push(msg);
+      }
+
+      const selected = new Set(await select(messages));
+      for (const msg of messages) {
+        if (selected.has(msg)) {
+          channel.ack(msg);
+        }
+      }
+      channel.nackAll(true);
+    } finally {
+      // Anything still unacked is requeued when the channel closes
+      await channel.close().catch(() => undefined);
+    }
+  }
+
+  async purgeQueue(queue: string): Promise<number> {
+    if (!this.channel) {
+      throw new Error('RabbitMQ not connected');
+    }
+
+    try {
+      const { messageCount } = await this.channel.purgeQueue(queue);
+      return messageCount;
+    } catch (error) {
+      console.error(`Failed to purge queue ${queue}:`, error);
+      throw error;
+    }
+  }
+
+  async getQueueInfo(queue: string): Promise<any> {
     if (!this.channel) {
       throw new Error('RabbitMQ not connected');
     }
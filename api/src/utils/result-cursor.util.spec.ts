@@ -0,0 +1,40 @@
+import { ResultCursor } from './result-cursor.util';
+import { ResultSort, ResultSortField, SortOrder } from '../interfaces/result-query.interface';
+
+describe('ResultCursor', () => {
+  const ID = '686ec1e200c2137ab7d5c276';
+  const byFetchedAt: ResultSort = { field: ResultSortField.FETCHED_AT, order: SortOrder.DESC };
+  const byResponseTime: ResultSort = { field: ResultSortField.RESPONSE_TIME, order: SortOrder.ASC };
+  const token = (payload: object): string => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  it('round-trips a date sort value', () => {
+    const fetchedAt = new Date('2025-07-09T12:00:00.000Z');
+    const cursor = ResultCursor.encode(byFetchedAt, { _id: ID, fetchedAt });
+
+    expect(ResultCursor.decode(cursor, byFetchedAt)).toEqual({ value: fetchedAt, id: ID });
+  });
+
+  it('round-trips a numeric sort value', () => {
+    const cursor = ResultCursor.encode(byResponseTime, { _id: ID, responseTime: 0 });
+
+    expect(ResultCursor.decode(cursor, byResponseTime)).toEqual({ value: 0, id: ID });
+  });
+
+  it('encodes URL-safe tokens', () => {
+    const cursor = ResultCursor.encode(byFetchedAt, { _id: ID, fetchedAt: new Date() });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it.each([
+    ['a different sort field', ResultCursor.encode(byResponseTime, { _id: ID, responseTime: 120 }), byFetchedAt],
+    ['a different sort order', ResultCursor.encode(byFetchedAt, { _id: ID, fetchedAt: new Date() }), { ...byFetchedAt, order: SortOrder.ASC }],
+    ['garbage', 'not-a-cursor', byFetchedAt],
+    ['valid JSON that is not an object', token(null), byFetchedAt],
+    ['a malformed _id', token({ f: 'fetchedAt', o: 'desc', v: '2025-07-09T12:00:00Z', id: '{"$ne":null}' }), byFetchedAt],
+    ['an invalid date', token({ f: 'fetchedAt', o: 'desc', v: 'yesterday', id: ID }), byFetchedAt],
+    ['a string for a numeric sort', token({ f: 'responseTime', o: 'asc', v: '120', id: ID }), byResponseTime]
+  ])('rejects a token with %s', (_, cursor, sort) => {
+    expect(ResultCursor.decode(cursor, sort)).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { ResultCursorPosition, ResultSort, ResultSortField } from '../interfaces/result-query.interface';
+
+interface CursorPayload {
+  f: ResultSortField;
+  o: string;
+  v: string | number;
+  id: string;
+}
+
+/**
+ * Opaque page tokens for the results listing: the sort they were issued for plus the
+ * sort value and _id of the last record on the page, base64url encoded
+ */
+export class ResultCursor {
+  private static readonly DATE_FIELDS = [ResultSortField.CREATED_AT, ResultSortField.FETCHED_AT];
+
+  static encode(sort: ResultSort, record: any): string {
+    const value = record[sort.field];
+    const payload: CursorPayload = {
+      f: sort.field,
+      o: sort.order,
+      v: value instanceof Date ? value.toISOString() : value,
+      id: record._id.toString()
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * Null when the token is malformed or was issued for a different sort
+   */
+  static decode(token: string, sort: ResultSort): ResultCursorPosition | null {
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (payload?.f !== sort.field || payload.o !== sort.order || !/^[0-9a-fA-F]{24}$/.test(payload.id ?? '')) {
+      return null;
+    }
+
+    if (this.DATE_FIELDS.includes(sort.field)) {
+      const date = new Date(payload.v);
+      return isNaN(date.getTime()) ? null : { value: date, id: payload.id };
+    }
+    return typeof payload.v === 'number' ? { value: payload.v, id: payload.id } : null;
+  }
+}
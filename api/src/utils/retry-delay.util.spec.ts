@@ -0,0 +1,39 @@
+import { RetryDelay, RetryDelaySettings } from './retry-delay.util';
+
+describe('RetryDelay', () => {
+  const settings: RetryDelaySettings = { baseMs: 5000, maxMs: 300000, retryAfterMaxMs: 3600000 };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    [0, 5000],
+    [1, 10000],
+    [3, 40000],
+    [6, 300000],
+    [20, 300000]
+  ])('backs off exponentially up to the maximum (retry %i: %i ms)', (retryCount, backoff) => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(RetryDelay.forFailure({ retryCount }, settings)).toBe(Math.round(backoff / 2 + 0.999999 * backoff / 2));
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(RetryDelay.forFailure({ retryCount }, settings)).toBe(backoff / 2);
+  });
+
+  it('keeps the jitter between half and all of the backoff', () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = RetryDelay.forFailure({ retryCount: 2 }, settings);
+
+      expect(delay).toBeGreaterThanOrEqual(10000);
+      expect(delay).toBeLessThanOrEqual(20000);
+    }
+  });
+
+  it('waits exactly the Retry-After sent by the target', () => {
+    expect(RetryDelay.forFailure({ retryCount: 2, retryAfterSeconds: 120 }, settings)).toBe(120000);
+    expect(RetryDelay.forFailure({ retryCount: 0, retryAfterSeconds: 0 }, settings)).toBe(0);
+  });
+
+  it('caps Retry-After at the configured maximum', () => {
+    expect(RetryDelay.forFailure({ retryCount: 0, retryAfterSeconds: 86400 }, settings)).toBe(3600000);
+  });
+});
@@ -0,0 +1,27 @@
+import { ScrapeFailure } from '../interfaces/scrape.interface';
+
+export interface RetryDelaySettings {
+  // Delay before the first retry, doubled after each failure
+  baseMs: number;
+  // Upper bound of the computed backoff
+  maxMs: number;
+  // Upper bound of a target's Retry-After
+  retryAfterMaxMs: number;
+}
+
+export class RetryDelay {
+  /**
+   * Delay before the next attempt: the target's Retry-After when it sent one, otherwise
+   * exponential backoff with jitter so jobs that failed together don't return together
+   */
+  static forFailure(failure: Pick<ScrapeFailure, 'retryCount' | 'retryAfterSeconds'>, settings: RetryDelaySettings): number {
+    if (failure.retryAfterSeconds !== undefined && failure.retryAfterSeconds >= 0) {
+      return Math.min(failure.retryAfterSeconds * 1000, settings.retryAfterMaxMs);
+    }
+
+    const backoff = Math.min(settings.baseMs * 2 ** failure.retryCount, settings.maxMs);
+
+    // Equal jitter: at least half the backoff, never more than all of it
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+}
@@ -0,0 +1,74 @@
+import { SearchSnippet } from './search-snippet.util';
+
+describe('SearchSnippet', () => {
+  describe('parse', () => {
+    it.each([
+      ['rust async', { phrases: [], terms: ['rust', 'async'] }],
+      ['"error handling" rust', { phrases: ['error handling'], terms: ['rust'] }],
+      ['rust -java -"garbage collector"', { phrases: [], terms: ['rust'] }],
+      ['  "  spaced phrase  "   term  ', { phrases: ['spaced phrase'], terms: ['term'] }],
+      ['"" -', { phrases: [], terms: [] }]
+    ])('parses %j', (search, parsed) => {
+      expect(SearchSnippet.parse(search)).toEqual(parsed);
+    });
+  });
+
+  describe('build', () => {
+    const filler = (words: number): string => Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+
+    it('marks every match of a short text', () => {
+      const snippets = SearchSnippet.build('Rust makes async Rust safe', SearchSnippet.parse('rust'));
+
+      expect(snippets).toEqual(['<mark>Rust</mark> makes async <mark>Rust</mark> safe']);
+    });
+
+    it('matches phrases across collapsed whitespace', () => {
+      const snippets = SearchSnippet.build('Good error\n   handling matters', SearchSnippet.parse('"error handling"'));
+
+      expect(snippets).toEqual(['Good <mark>error handling</mark> matters']);
+    });
+
+    it('matches whole words only', () => {
+      const snippets = SearchSnippet.build('Trusty crates are not rust', SearchSnippet.parse('rust'));
+
+      expect(snippets).toEqual(['Trusty crates are not <mark>rust</mark>']);
+    });
+
+    it('escapes HTML in the text', () => {
+      const snippets = SearchSnippet.build('<script>alert("rust")</script>', SearchSnippet.parse('rust'));
+
+      expect(snippets).toEqual(['&#60;script&#62;alert(&#34;<mark>rust</mark>&#34;)&#60;/script&#62;']);
+    });
+
+    it('trims distant matches to separate windows on word boundaries', () => {
+      const text = `${filler(40)} needle ${filler(40)} needle ${filler(40)}`;
+      const snippets = SearchSnippet.build(text, SearchSnippet.parse('needle'));
+
+      expect(snippets).toHaveLength(2);
+      for (const snippet of snippets) {
+        expect(snippet).toMatch(/^…word\d+ .* word\d+…$/);
+        expect(snippet).toContain('<mark>needle</mark>');
+        expect(snippet.length).toBeLessThan(220);
+      }
+    });
+
+    it('returns at most three snippets', () => {
+      const text = Array.from({ length: 6 }, () => `needle ${filler(40)}`).join(' ');
+
+      expect(SearchSnippet.build(text, SearchSnippet.parse('needle'))).toHaveLength(3);
+    });
+
+    it('shows the opening of the text when only the title matched', () => {
+      const snippets = SearchSnippet.build(filler(100), SearchSnippet.parse('elsewhere'));
+
+      expect(snippets).toHaveLength(1);
+      expect(snippets[0]).toMatch(/^word0 word1 .* word\d+…$/);
+      expect(snippets[0]).not.toContain('<mark>');
+    });
+
+    it('returns nothing without text', () => {
+      expect(SearchSnippet.build(undefined, SearchSnippet.parse('rust'))).toEqual([]);
+      expect(SearchSnippet.build('', SearchSnippet.parse('rust'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { ParsedSearchQuery } from '../interfaces/search.interface';
+
+interface SnippetWindow {
+  start: number;
+  end: number;
+  matches: Array<[number, number]>;
+}
+
+/**
+ * Highlighted passages for search hits. MongoDB only says that a document matched,
+ * so the terms and phrases of the query are looked up again in the text.
+ */
+export class SearchSnippet {
+  // Characters of context on each side of the first match of a snippet
+  private static readonly RADIUS = 80;
+  private static readonly MAX_SNIPPETS = 3;
+  private static readonly MAX_MATCHES = 200;
+
+  /**
+   * Same syntax as MongoDB $text: "quoted phrases", bare terms and -negations
+   */
+  static parse(search: string): ParsedSearchQuery {
+    const phrases: string[] = [];
+    const rest = search.replace(/(-?)"([^"]*)"/g, (_, negated: string, phrase: string) => {
+      if (!negated && phrase.trim()) {
+        phrases.push(phrase.trim());
+      }
+      return ' ';
+    });
+
+    const terms = rest.split(/\s+/).filter(term => term && !term.startsWith('-'));
+    return { phrases, terms };
+  }
+
+  static build(text: string | undefined, query: ParsedSearchQuery): string[] {
+    if (!text) {
+      return [];
+    }
+
+    const matches = this.findMatches(text, query);
+    if (!matches.length) {
+      // Matched on the title or description only: show the opening of the text
+      return [this.render(text, { start: 0, end: Math.min(2 * this.RADIUS, text.length), matches: [] })];
+    }
+
+    const windows: SnippetWindow[] = [];
+    for (const [start, end] of matches) {
+      const last = windows[windows.length - 1];
+      if (last && start < last.end) {
+        // Highlighted within the previous snippet when it fits there entirely
+        if (end <= last.end) {
+          last.matches.push([start, end]);
+        }
+        continue;
+      }
+      if (windows.length === this.MAX_SNIPPETS) {
+        break;
+      }
+      windows.push({
+        start: Math.max(start - this.RADIUS, 0),
+        end: Math.min(end + this.RADIUS, text.length),
+        matches: [[start, end]]
+      });
+    }
+
+    return windows.map(window => this.render(text, window));
+  }
+
+  private static findMatches(text: string, query: ParsedSearchQuery): Array<[number, number]> {
+    const alternatives = [...query.phrases, ...query.terms]
+      .sort((a, b) => b.length - a.length)
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    if (!alternatives.length) {
+      return [];
+    }
+
+    // Whole words only, as the index tokenizes on word boundaries
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    const matches: Array<[number, number]> = [];
+    for (const match of text.matchAll(pattern)) {
+      matches.push([match.index, match.index + match[0].length]);
+      if (matches.length === this.MAX_MATCHES) {
+        break;
+      }
+    }
+    return matches;
+  }
+
+  // Trimmed to whole words, whitespace collapsed, matches marked
+  private static render(text: string, window: SnippetWindow): string {
+    const firstMatch = window.matches[0]?.[0] ?? window.end;
+    const lastMatch = window.matches[window.matches.length - 1]?.[1] ?? window.start;
+
+    let start = window.start;
+    if (start > 0) {
+      const space = text.slice(start, firstMatch).search(/\s/);
+      start = space === -1 ? start : start + space + 1;
+    }
+
+    let end = window.end;
+    if (end < text.length) {
+      const space = text.slice(lastMatch, end).search(/\s\S*$/);
+      end = space === -1 ? end : lastMatch + space;
+    }
+
+    let snippet = start > 0 ? '…' : '';
+    let position = start;
+    for (const [matchStart, matchEnd] of window.matches) {
+      snippet += this.escape(text.slice(position, matchStart)) + `<mark>${this.escape(text.slice(matchStart, matchEnd))}</mark>`;
+      position = matchEnd;
+    }
+    snippet += this.escape(text.slice(position, end)) + (end < text.length ? '…' : '');
+
+    return snippet.replace(/\s+/g, ' ').trim();
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+  }
+}
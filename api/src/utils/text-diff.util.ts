@@ -0,0 +1,44 @@
+import { diffLines, createTwoFilesPatch } from 'diff';
+
+export interface TextDiffSummary {
+  linesAdded: number;
+  linesRemoved: number;
+  // Changed lines over all lines of both versions: 0 = identical, 1 = nothing in common
+  changeRatio: number;
+}
+
+export class TextDiff {
+  // Bounds the Myers diff cost on large, very different texts
+  private static readonly MAX_EDIT_LENGTH = 10000;
+
+  /**
+   * Line-based change summary; null when the texts differ too much to diff cheaply
+   */
+  static summarize(before: string, after: string): TextDiffSummary | null {
+    const changes = diffLines(before, after, { maxEditLength: this.MAX_EDIT_LENGTH });
+    if (!changes) {
+      return null;
+    }
+
+    let linesAdded = 0;
+    let linesRemoved = 0;
+    let linesTotal = 0;
+
+    for (const change of changes) {
+      const count = change.count || 0;
+      linesTotal += change.added || change.removed ? count : count * 2;
+      if (change.added) linesAdded += count;
+      if (change.removed) linesRemoved += count;
+    }
+
+    return {
+      linesAdded,
+      linesRemoved,
+      changeRatio: linesTotal ? Math.round(((linesAdded + linesRemoved) / linesTotal) * 10000) / 10000 : 0
+    };
+  }
+
+  static unified(before: string, after: string, fromLabel: string, toLabel: string): string {
+    return createTwoFilesPatch(fromLabel, toLabel, before, after, undefined, undefined, { context: 3 });
+  }
+}
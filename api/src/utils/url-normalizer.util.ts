@@ -1,4 +1,7 @@
 export class UrlNormalizer {
+  // Second-level labels that form a public suffix with the TLD (co.il, co.uk, com.au...)
+  private static readonly SECOND_LEVEL_SUFFIXES = ['co', 'com', 'org', 'net', 'gov', 'ac', 'edu', 'or', 'ne', 'go', 'mil'];
+
   /**
    * Normalize URL for consistent storage and comparison
    * - Only lowercase the hostname (domain)
@@ -125,4 +128,22 @@ export class UrlNormalizer {
       return url;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Approximate the registrable domain (eTLD+1) of a URL
+   * - blog.example.com → example.com
+   * - news.ynet.co.il → ynet.co.il (common two-level suffixes)
+   */
+  static getRegistrableDomain(url: string): string {
+    const hostname = this.getHostname(url);
+    if (/^[\d.]+$/.test(hostname) || hostname.includes(':') || !hostname.includes('.')) {
+      return hostname;
+    }
+
+    const labels = hostname.split('.');
+    const secondLevel = labels[labels.length - 2];
+    const keep = labels.length > 2 && this.SECOND_LEVEL_SUFFIXES.includes(secondLevel) ? 3 : 2;
+
+    return labels.slice(-keep).join('.');
+  }
+}
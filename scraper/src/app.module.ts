@@ -1,7 +1,13 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
 import { RabbitMQUtil } from './utils/rabbitmq.util';
 import { ScraperService } from './services/scraper.service';
+import { RobotsService } from './services/robots.service';
+import { PolitenessService } from './services/politeness.service';
+import { BrowserPoolService } from './services/browser-pool.service';
+import { CancellationService } from './services/cancellation.service';
+import { HealthController } from './controllers/health.controller';
 
 @Module({
   imports: [
@@ -10,17 +16,31 @@ import { ScraperService } from './services/scraper.service';
       envFilePath: ['.env.local', '.env']
     })
   ],
+  controllers: [HealthController],
   providers: [
     ScraperService,
+    RobotsService,
+    PolitenessService,
+    BrowserPoolService,
+    CancellationService,
     {
       provide: RabbitMQUtil,
       useFactory: async (configService: ConfigService) => {
         const client = new RabbitMQUtil();
         const rabbitmqUrl = configService.get<string>('RABBITMQ_URL', 'amqp://localhost:5672');
-        await client.connect(rabbitmqUrl);
+        // Each scrape request held unacked is one job running on this worker
+        await client.connect(rabbitmqUrl, Number(configService.get<number>('CONCURRENT_SCRAPERS', 3)));
         return client;
       },
       inject: [ConfigService]
+    },
+    {
+      provide: Redis,
+      useFactory: (configService: ConfigService) => {
+        const redisUrl = configService.get<string>('REDIS_URL', 'redis://localhost:6379');
+        return new Redis(redisUrl);
+      },
+      inject: [ConfigService]
     }
   ]
 })
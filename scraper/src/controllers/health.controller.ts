@@ -0,0 +1,27 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { BrowserPoolService, BrowserPoolMetrics } from '../services/browser-pool.service';
+
+@Controller()
+export class HealthController {
+  constructor(private readonly browserPool: BrowserPoolService) {}
+
+  /**
+   * 503 while no browser is connected, so orchestrators can restart the instance
+   */
+  @Get('health')
+  getHealth(): { status: string; browsers: number } {
+    const metrics = this.browserPool.getMetrics();
+    const connected = metrics.browsers.filter(browser => browser.connected).length;
+
+    if (!metrics.healthy) {
+      throw new ServiceUnavailableException({ status: 'unhealthy', browsers: connected });
+    }
+
+    return { status: 'ok', browsers: connected };
+  }
+
+  @Get('metrics')
+  getMetrics(): BrowserPoolMetrics {
+    return this.browserPool.getMetrics();
+  }
+}
@@ -0,0 +1,108 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import puppeteer from 'puppeteer';
+import { BrowserPoolService } from './browser-pool.service';
+
+jest.mock('puppeteer', () => ({ __esModule: true, default: { launch: jest.fn() } }));
+
+interface FakeBrowser {
+  closed: boolean;
+  close: jest.Mock;
+  isConnected: () => boolean;
+  once: jest.Mock;
+  process: () => { pid: number };
+  createIncognitoBrowserContext: jest.Mock;
+}
+
+describe('BrowserPoolService', () => {
+  let pool: BrowserPoolService;
+  let browsers: FakeBrowser[];
+
+  const fakeBrowser = (): FakeBrowser => {
+    const browser: FakeBrowser = {
+      closed: false,
+      close: jest.fn(async () => { browser.closed = true; }),
+      isConnected: () => !browser.closed,
+      once: jest.fn(),
+      process: () => ({ pid: 1000 + browsers.length }),
+      createIncognitoBrowserContext: jest.fn(async () => {
+        if (browser.closed) {
+          throw new Error('Browser is closed');
+        }
+        return { newPage: async () => ({}), close: async () => undefined };
+      })
+    };
+    browsers.push(browser);
+    return browser;
+  };
+
+  const createPool = async (settings: Record<string, number>) => {
+    const configService = { get: (key: string, fallback?: unknown) => settings[key] ?? fallback } as ConfigService;
+    pool = new BrowserPoolService(configService);
+    await pool.start();
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    browsers = [];
+    (puppeteer.launch as jest.Mock).mockImplementation(async () => fakeBrowser());
+  });
+
+  afterEach(async () => {
+    await pool.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('recycling after BROWSER_MAX_PAGES', () => {
+    it('serves the next page from the replacement when the pool is idle', async () => {
+      await createPool({ BROWSER_POOL_SIZE: 1, BROWSER_MAX_PAGES: 2 });
+
+      for (let i = 0; i < 2; i++) {
+        await (await pool.acquire()).release();
+      }
+      const lease = await pool.acquire();
+
+      expect(browsers).toHaveLength(2);
+      expect(browsers[0].close).toHaveBeenCalledTimes(1);
+      expect(browsers[1].createIncognitoBrowserContext).toHaveBeenCalledTimes(1);
+      expect(pool.getMetrics()).toMatchObject({ recycles: 1, launches: 2, pagesServed: 3, openPages: 1 });
+
+      await lease.release();
+    });
+
+    it('lets the old browser drain its open pages before closing it once', async () => {
+      await createPool({ BROWSER_POOL_SIZE: 1, BROWSER_MAX_PAGES: 1 });
+
+      const first = await pool.acquire();
+      const second = await pool.acquire();
+
+      expect(browsers).toHaveLength(2);
+      expect(browsers[0].close).not.toHaveBeenCalled();
+      expect(pool.getMetrics().draining).toBe(1);
+
+      await first.release();
+      await first.release();
+
+      expect(browsers[0].close).toHaveBeenCalledTimes(1);
+      expect(pool.getMetrics().draining).toBe(0);
+
+      await second.release();
+    });
+
+    it('prefers another ready browser over waiting for the replacement', async () => {
+      await createPool({ BROWSER_POOL_SIZE: 2, BROWSER_MAX_PAGES: 1 });
+
+      const first = await pool.acquire();
+      const second = await pool.acquire();
+
+      expect(first.page).toBeDefined();
+      expect(second.page).toBeDefined();
+      expect(browsers[0].createIncognitoBrowserContext).toHaveBeenCalledTimes(1);
+      expect(browsers[1].createIncognitoBrowserContext).toHaveBeenCalledTimes(1);
+
+      await first.release();
+      await second.release();
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+import { ProcessMemory } from '../utils/process-memory.util';
+
+/**
+ * One page in its own incognito context; release() closes both
+ */
+export interface BrowserLease {
+  page: Page;
+  release: () => Promise<void>;
+}
+
+export interface BrowserMetrics {
+  slot: number;
+  pid?: number;
+  connected: boolean;
+  retiring: boolean;
+  pagesServed: number;
+  activePages: number;
+  uptimeSeconds: number;
+  memoryMb: number | null;
+}
+
+export interface BrowserPoolMetrics {
+  healthy: boolean;
+  size: number;
+  browsers: BrowserMetrics[];
+  draining: number;
+  openPages: number;
+  maxOpenPages: number;
+  waitingForPage: number;
+  launches: number;
+  crashes: number;
+  recycles: number;
+  pagesServed: number;
+  launchFailures: number;
+}
+
+interface PooledBrowser {
+  slot: number;
+  browser: Browser;
+  launchedAt: number;
+  pagesServed: number;
+  activePages: number;
+  // Replaced in its slot; closed once its last page is released
+  retiring: boolean;
+  memoryBytes: number | null;
+}
+
+interface Slot {
+  id: number;
+  current: PooledBrowser | null;
+  launching: Promise<PooledBrowser> | null;
+  failures: number;
+}
+
+/**
+ * Pool of Chrome instances
+ * - A browser that disconnects (crash, OOM kill) is relaunched with backoff
+ * - A browser is recycled after BROWSER_MAX_PAGES pages or above BROWSER_MAX_MEMORY_MB;
+ *   jobs still running on it finish before it is closed
+ * - Every job gets its own incognito context, so cookies and storage never leak between jobs
+ * - At most BROWSER_MAX_OPEN_PAGES pages are open across the pool; further jobs wait their turn
+ */
+@Injectable()
+export class BrowserPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(BrowserPoolService.name);
+  private readonly size: number;
+  private readonly maxPages: number;
+  private readonly maxMemoryBytes: number;
+  private readonly checkInterval: number;
+  private readonly maxOpenPages: number;
+  private readonly slots: Slot[] = [];
+  private readonly draining = new Set<PooledBrowser>();
+  private readonly pageWaiters: Array<() => void> = [];
+  private openPages = 0;
+  private timer?: NodeJS.Timeout;
+  private shuttingDown = false;
+
+  private readonly counters = { launches: 0, crashes: 0, recycles: 0, pagesServed: 0, launchFailures: 0 };
+
+  private static readonly LAUNCH_ARGS = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-gpu',
+    '--disable-web-security',
+    '--disable-features=VizDisplayCompositor'
+  ];
+  private static readonly MAX_RELAUNCH_DELAY_MS = 30000;
+
+  constructor(private readonly configService: ConfigService) {
+    this.size = Math.max(Number(this.configService.get<number>('BROWSER_POOL_SIZE', 1)), 1);
+    this.maxPages = Number(this.configService.get<number>('BROWSER_MAX_PAGES', 200));
+    this.maxMemoryBytes = Number(this.configService.get<number>('BROWSER_MAX_MEMORY_MB', 1024)) * 1024 * 1024;
+    this.checkInterval = Number(this.configService.get<number>('BROWSER_CHECK_SECONDS', 30)) * 1000;
+    this.maxOpenPages = Math.max(Number(this.configService.get<number>('BROWSER_MAX_OPEN_PAGES',
+      this.configService.get<number>('CONCURRENT_SCRAPERS', 3))), 1);
+  }
+
+  async start(): Promise<void> {
+    for (let id = 0; id < this.size; id++) {
+      this.slots.push({ id, current: null, launching: null, failures: 0 });
+    }
+
+    const launched = await Promise.allSettled(this.slots.map(slot => this.launch(slot)));
+    if (!launched.some(result => result.status === 'fulfilled')) {
+      throw new Error('No browser could be launched');
+    }
+
+    this.timer = setInterval(() => this.checkBrowsers(), this.checkInterval);
+    this.logger.log(`Browser pool started with ${this.size} browser(s)`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.shuttingDown = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+
+    const browsers = [...this.slots.map(slot => slot.current), ...this.draining].filter(Boolean);
+    await Promise.all(browsers.map(pooled => pooled.browser.close().catch(() => undefined)));
+  }
+
+  /**
+   * Page in a fresh incognito context on the least busy browser
+   */
+  async acquire(): Promise<BrowserLease> {
+    await this.takePageSlot();
+
+    let pooled: PooledBrowser;
+    try {
+      pooled = await this.reserveBrowser();
+    } catch (error) {
+      this.freePageSlot();
+      throw error;
+    }
+
+    let context: BrowserContext | null = null;
+    try {
+      context = await pooled.browser.createIncognitoBrowserContext();
+      const page = await context.newPage();
+
+      let released = false;
+      return {
+        page,
+        release: async () => {
+          if (released) {
+            return;
+          }
+          released = true;
+          await context.close().catch(() => undefined);
+          this.releasePage(pooled);
+        }
+      };
+    } catch (error) {
+      await context?.close().catch(() => undefined);
+      this.releasePage(pooled);
+      throw error;
+    }
+  }
+
+  getMetrics(): BrowserPoolMetrics {
+    const browsers = this.slots
+      .filter(slot => slot.current)
+      .map(slot => this.describe(slot.current));
+
+    return {
+      healthy: this.isHealthy(),
+      size: this.size,
+      browsers,
+      draining: this.draining.size,
+      openPages: this.openPages,
+      maxOpenPages: this.maxOpenPages,
+      waitingForPage: this.pageWaiters.length,
+      ...this.counters
+    };
+  }
+
+  isHealthy(): boolean {
+    return this.slots.some(slot => slot.current?.browser.isConnected());
+  }
+
+  /**
+   * Least busy browser with a page counted against it, so it cannot be closed before the
+   * page is open. Browsers that served BROWSER_MAX_PAGES are recycled, never handed out.
+   */
+  private async reserveBrowser(): Promise<PooledBrowser> {
+    for (const slot of this.slots) {
+      if (slot.current && slot.current.pagesServed >= this.maxPages) {
+        this.recycle(slot, `served ${slot.current.pagesServed} pages`);
+      }
+    }
+
+    const ready = this.slots
+      .map(slot => slot.current)
+      .filter(pooled => pooled && pooled.browser.isConnected())
+      .sort((a, b) => a.activePages - b.activePages);
+
+    if (ready.length) {
+      return this.reserve(ready[0]);
+    }
+
+    // Every browser is (re)launching: wait for the first one
+    const launching = this.slots.map(slot => slot.launching || this.launch(slot));
+    return new Promise((resolve, reject) => {
+      let pending = launching.length;
+      let settled = false;
+      for (const attempt of launching) {
+        attempt.then(
+          pooled => {
+            if (!settled) {
+              settled = true;
+              resolve(this.reserve(pooled));
+            }
+          },
+          () => --pending === 0 && reject(new Error('Browser not initialized'))
+        );
+      }
+    });
+  }
+
+  private reserve(pooled: PooledBrowser): PooledBrowser {
+    pooled.activePages++;
+    pooled.pagesServed++;
+    this.counters.pagesServed++;
+    return pooled;
+  }
+
+  private async takePageSlot(): Promise<void> {
+    if (this.openPages < this.maxOpenPages) {
+      this.openPages++;
+      return;
+    }
+    await new Promise<void>(resolve => this.pageWaiters.push(resolve));
+  }
+
+  // A waiting job inherits the slot, so the count only drops when nobody waits
+  private freePageSlot(): void {
+    const next = this.pageWaiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.openPages--;
+    }
+  }
+
+  private releasePage(pooled: PooledBrowser): void {
+    pooled.activePages = Math.max(pooled.activePages - 1, 0);
+    this.freePageSlot();
+
+    if (pooled.retiring && pooled.activePages === 0) {
+      this.closeRetired(pooled);
+    }
+  }
+
+  private launch(slot: Slot): Promise<PooledBrowser> {
+    if (slot.launching) {
+      return slot.launching;
+    }
+
+    slot.launching = (async () => {
+      try {
+        const browser = await puppeteer.launch({ headless: 'new', args: BrowserPoolService.LAUNCH_ARGS });
+        const pooled: PooledBrowser = {
+          slot: slot.id,
+          browser,
+          launchedAt: Date.now(),
+          pagesServed: 0,
+          activePages: 0,
+          retiring: false,
+          memoryBytes: null
+        };
+
+        browser.once('disconnected', () => this.handleDisconnect(slot, pooled));
+        slot.current = pooled;
+        slot.failures = 0;
+        this.counters.launches++;
+        this.logger.log(`Browser ${slot.id} launched (pid ${browser.process()?.pid})`);
+
+        return pooled;
+      } catch (error) {
+        slot.failures++;
+        this.counters.launchFailures++;
+        this.logger.error(`Browser ${slot.id} failed to launch (attempt ${slot.failures}): ${error.message}`);
+        this.scheduleRelaunch(slot);
+        throw error;
+      } finally {
+        slot.launching = null;
+      }
+    })();
+
+    return slot.launching;
+  }
+
+  private scheduleRelaunch(slot: Slot): void {
+    if (this.shuttingDown) {
+      return;
+    }
+
+    const delay = Math.min(1000 * 2 ** slot.failures, BrowserPoolService.MAX_RELAUNCH_DELAY_MS);
+    setTimeout(() => {
+      if (!this.shuttingDown && !slot.current && !slot.launching) {
+        this.launch(slot).catch(() => undefined);
+      }
+    }, delay);
+  }
+
+  private handleDisconnect(slot: Slot, pooled: PooledBrowser): void {
+    this.draining.delete(pooled);
+
+    if (pooled.retiring || this.shuttingDown) {
+      return;
+    }
+
+    this.counters.crashes++;
+    this.logger.error(`💥 Browser ${slot.id} disconnected with ${pooled.activePages} active page(s), relaunching`);
+
+    if (slot.current === pooled) {
+      slot.current = null;
+      this.launch(slot).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Swap in a new browser; the old one keeps serving its open pages until they are released
+   */
+  private recycle(slot: Slot, reason: string): void {
+    const pooled = slot.current;
+    if (!pooled || pooled.retiring) {
+      return;
+    }
+
+    this.counters.recycles++;
+    this.logger.log(`♻️ Recycling browser ${slot.id}: ${reason}`);
+
+    pooled.retiring = true;
+    slot.current = null;
+    this.draining.add(pooled);
+    this.launch(slot).catch(() => undefined);
+
+    if (pooled.activePages === 0) {
+      this.closeRetired(pooled);
+    }
+  }
+
+  private closeRetired(pooled: PooledBrowser): void {
+    // Closed once, by whichever of recycle() and the last release() sees it idle
+    if (!this.draining.delete(pooled)) {
+      return;
+    }
+    pooled.browser.close().catch(error => this.logger.warn(`Error closing retired browser: ${error.message}`));
+  }
+
+  /**
+   * Periodic sweep: relaunch empty slots and recycle browsers above the memory limit
+   */
+  private async checkBrowsers(): Promise<void> {
+    for (const slot of this.slots) {
+      const pooled = slot.current;
+
+      if (!pooled) {
+        if (!slot.launching) {
+          this.launch(slot).catch(() => undefined);
+        }
+        continue;
+      }
+
+      const pid = pooled.browser.process()?.pid;
+      pooled.memoryBytes = pid ? await ProcessMemory.treeRssBytes(pid) : null;
+
+      if (pooled.memoryBytes !== null && pooled.memoryBytes > this.maxMemoryBytes) {
+        this.recycle(slot, `using ${Math.round(pooled.memoryBytes / 1048576)} MB`);
+      }
+    }
+  }
+
+  private describe(pooled: PooledBrowser): BrowserMetrics {
+    return {
+      slot: pooled.slot,
+      pid: pooled.browser.process()?.pid,
+      connected: pooled.browser.isConnected(),
+      retiring: pooled.retiring,
+      pagesServed: pooled.pagesServed,
+      activePages: pooled.activePages,
+      uptimeSeconds: Math.round((Date.now() - pooled.launchedAt) / 1000),
+      memoryMb: pooled.memoryBytes !== null ? Math.round(pooled.memoryBytes / 1048576) : null
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RabbitMQUtil } from '../utils/rabbitmq.util';
+import { ExchangeNames, ScraperControlMessage, ControlAction } from '../interfaces/scrape.interface';
+
+/**
+ * Cancellations broadcast by the API over the control exchange
+ * - Requests dequeued after their cancellation are skipped
+ * - Running jobs are aborted through the signal they were given by track()
+ * A scraper started after a cancellation never hears of it; the API ignores its late result instead.
+ */
+@Injectable()
+export class CancellationService implements OnModuleInit {
+  private readonly logger = new Logger(CancellationService.name);
+
+  // Long enough to outlive the queue TTL plus a retry delay
+  private static readonly REMEMBER_MS = 3 * 60 * 60 * 1000;
+
+  // Request ID -> when it can be forgotten; insertion order is expiry order
+  private readonly cancelled = new Map<string, number>();
+  private readonly running = new Map<string, AbortController>();
+
+  constructor(private readonly rabbitMQClient: RabbitMQUtil) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.rabbitMQClient.subscribe<ScraperControlMessage>(
+      ExchangeNames.SCRAPER_CONTROL,
+      message => this.handleControl(message)
+    );
+  }
+
+  isCancelled(requestId: string): boolean {
+    this.forgetExpired();
+    return this.cancelled.has(requestId);
+  }
+
+  /**
+   * Signal aborted when the request is cancelled; call release() once the job ends
+   */
+  track(requestId: string): AbortSignal {
+    const controller = new AbortController();
+    this.running.set(requestId, controller);
+
+    if (this.isCancelled(requestId)) {
+      controller.abort();
+    }
+    return controller.signal;
+  }
+
+  release(requestId: string): void {
+    this.running.delete(requestId);
+  }
+
+  private handleControl(message: ScraperControlMessage): void {
+    if (message.action !== ControlAction.CANCEL) {
+      return;
+    }
+
+    this.forgetExpired();
+    const expiresAt = Date.now() + CancellationService.REMEMBER_MS;
+
+    for (const requestId of message.requestIds || []) {
+      this.cancelled.delete(requestId);
+      this.cancelled.set(requestId, expiresAt);
+
+      const job = this.running.get(requestId);
+      if (job) {
+        this.logger.log(`🛑 Aborting cancelled job ${requestId}`);
+        job.abort();
+      }
+    }
+  }
+
+  private forgetExpired(): void {
+    const now = Date.now();
+    for (const [requestId, expiresAt] of this.cancelled) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.cancelled.delete(requestId);
+    }
+  }
+}
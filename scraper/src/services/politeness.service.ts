@@ -0,0 +1,181 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+
+export interface HostLimits {
+  minDelayMs: number;
+  maxConcurrent: number;
+}
+
+export interface PolitenessLease {
+  acquired: boolean;
+  host: string;
+  token?: string;
+  // How long to wait before trying again when not acquired
+  retryAfterMs?: number;
+}
+
+/**
+ * Atomically admit a request for a host when both limits allow it
+ * KEYS[1] active leases (sorted set, score = lease expiry)
+ * KEYS[2] earliest time the next request may start
+ * ARGV: token, maxConcurrent, minDelayMs, leaseMs
+ * Returns 0 when admitted, otherwise the number of ms to wait
+ */
+const ACQUIRE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+
+local nextAllowed = tonumber(redis.call('GET', KEYS[2]) or '0')
+if nextAllowed > now then
+  return nextAllowed - now
+end
+
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[2]) then
+  local earliest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return math.max(math.min(tonumber(earliest[2]) - now, 1000), 50)
+end
+
+local leaseMs = tonumber(ARGV[4])
+redis.call('ZADD', KEYS[1], now + leaseMs, ARGV[1])
+redis.call('PEXPIRE', KEYS[1], leaseMs)
+
+local minDelay = tonumber(ARGV[3])
+if minDelay > 0 then
+  redis.call('SET', KEYS[2], now + minDelay, 'PX', minDelay)
+end
+return 0
+`;
+
+@Injectable()
+export class PolitenessService implements OnModuleDestroy {
+  // Headroom over the page timeout for navigation, waits, captures and a busy browser pool
+  static readonly LEASE_TIMEOUT_MULTIPLIER = 4;
+
+  private readonly logger = new Logger(PolitenessService.name);
+  private readonly defaults: HostLimits;
+  private readonly overrides: Record<string, Partial<HostLimits>>;
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly configService: ConfigService
+  ) {
+    this.defaults = {
+      minDelayMs: this.configService.get<number>('POLITENESS_MIN_DELAY_MS', 1000),
+      maxConcurrent: this.configService.get<number>('POLITENESS_MAX_CONCURRENT', 2)
+    };
+    this.overrides = this.parseOverrides(this.configService.get<string>('POLITENESS_DOMAIN_OVERRIDES', ''));
+    // A lease outlives the page load so a crashed worker cannot block a host forever
+    this.leaseMs = Number(this.configService.get<number>('PUPPETEER_TIMEOUT', 15000)) * PolitenessService.LEASE_TIMEOUT_MULTIPLIER;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  /**
+   * Limits for a host: the most specific domain override wins over the defaults
+   * (an override for example.com also covers blog.example.com)
+   */
+  getLimits(host: string): HostLimits {
+    const labels = host.toLowerCase().replace(/^www\./, '').split('.');
+
+    for (let i = 0; i < labels.length - 1; i++) {
+      const override = this.overrides[labels.slice(i).join('.')];
+      if (override) {
+        return { ...this.defaults, ...override };
+      }
+    }
+
+    return this.defaults;
+  }
+
+  /**
+   * Try to start a request to the URL's host under the shared limits.
+   * Crawl-delay (seconds) from robots.txt raises the minimum delay when it is stricter.
+   * The lease is sized from the request's own timeout (timeoutMs) when it exceeds the default.
+   */
+  async tryAcquire(url: string, crawlDelay?: number, timeoutMs?: number): Promise<PolitenessLease> {
+    const host = new URL(url).host.toLowerCase().replace(/^www\./, '');
+    const limits = this.getLimits(host);
+    const minDelayMs = Math.max(limits.minDelayMs, (crawlDelay || 0) * 1000);
+    const leaseMs = Math.max(this.leaseMs, (timeoutMs || 0) * PolitenessService.LEASE_TIMEOUT_MULTIPLIER);
+    const token = randomUUID();
+
+    let waitMs: number;
+    try {
+      waitMs = Number(await this.redis.eval(
+        ACQUIRE_SCRIPT,
+        2,
+        `politeness:${host}:active`,
+        `politeness:${host}:next`,
+        token,
+        limits.maxConcurrent,
+        minDelayMs,
+        leaseMs
+      ));
+    } catch (error) {
+      // Fail open: an unavailable coordination store must not stop all scraping
+      this.logger.warn(`Politeness check unavailable for ${host}, proceeding: ${error.message}`);
+      return { acquired: true, host };
+    }
+
+    if (waitMs > 0) {
+      return { acquired: false, host, retryAfterMs: waitMs };
+    }
+
+    return { acquired: true, host, token };
+  }
+
+  /**
+   * Wait for a slot up to maxWaitMs; returns a lease with acquired=false when the
+   * host stays busy so the caller can defer the job instead of failing it
+   */
+  async acquire(url: string, maxWaitMs: number, crawlDelay?: number, timeoutMs?: number): Promise<PolitenessLease> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (true) {
+      const lease = await this.tryAcquire(url, crawlDelay, timeoutMs);
+      if (lease.acquired) {
+        return lease;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return lease;
+      }
+
+      const waitMs = Math.min(lease.retryAfterMs, remaining);
+      this.logger.log(`⏳ Politeness limit for ${lease.host}: waiting ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  async release(lease: PolitenessLease): Promise<void> {
+    if (!lease?.acquired || !lease.token) return;
+
+    try {
+      await this.redis.zrem(`politeness:${lease.host}:active`, lease.token);
+    } catch (error) {
+      // The lease expires on its own - a failed release only delays the host briefly
+      this.logger.warn(`Failed to release politeness lease for ${lease.host}: ${error.message}`);
+    }
+  }
+
+  private parseOverrides(raw: string): Record<string, Partial<HostLimits>> {
+    if (!raw) return {};
+
+    try {
+      const parsed = JSON.parse(raw);
+      return Object.fromEntries(
+        Object.entries(parsed).map(([domain, limits]) => [domain.toLowerCase().replace(/^www\./, ''), limits as Partial<HostLimits>])
+      );
+    } catch (error) {
+      this.logger.error(`Invalid POLITENESS_DOMAIN_OVERRIDES, using defaults: ${error.message}`);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as cheerio from 'cheerio';
+import { RobotsDirectives } from '../interfaces/scrape.interface';
+import { RobotsTxt } from '../utils/robots-txt.util';
+
+export interface RobotsCheckResult {
+  allowed: boolean;
+  rule?: string;
+  crawlDelay?: number;
+}
+
+interface CachedRobots {
+  robots: RobotsTxt;
+  expiresAt: number;
+}
+
+@Injectable()
+export class RobotsService {
+  private readonly logger = new Logger(RobotsService.name);
+  private readonly cache = new Map<string, CachedRobots>();
+  private readonly inflight = new Map<string, Promise<RobotsTxt>>();
+  private readonly enabled: boolean;
+  private readonly userAgent: string;
+  private readonly cacheTtlMs: number;
+  private readonly fetchTimeout: number;
+  private readonly maxCrawlDelay: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled = `${this.configService.get('RESPECT_ROBOTS_TXT', true)}` !== 'false';
+    this.userAgent = this.configService.get<string>('ROBOTS_USER_AGENT', 'UrlContentProvider/1.0');
+    this.cacheTtlMs = this.configService.get<number>('ROBOTS_CACHE_TTL_MINUTES', 60) * 60 * 1000;
+    this.fetchTimeout = this.configService.get<number>('ROBOTS_FETCH_TIMEOUT', 5000);
+    this.maxCrawlDelay = this.configService.get<number>('ROBOTS_MAX_CRAWL_DELAY_SECONDS', 30);
+  }
+
+  /**
+   * Check a URL against its host's robots.txt for our user agent
+   */
+  async check(url: string): Promise<RobotsCheckResult> {
+    if (!this.enabled) {
+      return { allowed: true };
+    }
+
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return { allowed: true };
+    }
+
+    const robots = await this.getRobots(origin);
+    const verdict = robots.isAllowed(url, this.userAgent);
+    const crawlDelay = robots.getCrawlDelay(this.userAgent);
+
+    return {
+      allowed: verdict.allowed,
+      rule: verdict.rule,
+      crawlDelay: crawlDelay !== undefined ? Math.min(crawlDelay, this.maxCrawlDelay) : undefined
+    };
+  }
+
+  /**
+   * Collect indexing directives from <meta name="robots"> (or our own agent's meta tag)
+   * and X-Robots-Tag headers. Header values scoped to another agent are ignored.
+   */
+  getPageDirectives(html: string, headers: Record<string, string> = {}): RobotsDirectives {
+    const values: string[] = [];
+    const token = this.userAgent.split('/')[0].toLowerCase();
+
+    try {
+      const $ = cheerio.load(html);
+      $('meta[name]').each((_, el) => {
+        const name = ($(el).attr('name') || '').toLowerCase();
+        if (name === 'robots' || name === token) {
+          values.push($(el).attr('content') || '');
+        }
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to parse meta robots: ${error.message}`);
+    }
+
+    const headerValue = Object.entries(headers)
+      .filter(([name]) => name.toLowerCase() === 'x-robots-tag')
+      .map(([, value]) => value)
+      .join('\n');
+
+    for (const line of headerValue.split(/\n/)) {
+      const scoped = line.match(/^\s*([^:,\s]+)\s*:(.*)$/);
+      if (scoped && !['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview'].includes(scoped[1].toLowerCase())) {
+        if (scoped[1].toLowerCase() === token) {
+          values.push(scoped[2]);
+        }
+        continue;
+      }
+      values.push(line);
+    }
+
+    const directives = values
+      .join(',')
+      .toLowerCase()
+      .split(',')
+      .map(value => value.trim());
+
+    const none = directives.includes('none');
+
+    return {
+      noindex: none || directives.includes('noindex'),
+      nofollow: none || directives.includes('nofollow'),
+      noarchive: directives.includes('noarchive')
+    };
+  }
+
+  private async getRobots(origin: string): Promise<RobotsTxt> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots;
+    }
+
+    // Share one fetch between concurrent jobs for the same host
+    let pending = this.inflight.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin).finally(() => this.inflight.delete(origin));
+      this.inflight.set(origin, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Fetch and cache robots.txt
+   * - 2xx: parsed rules
+   * - 4xx: no restrictions (RFC 9309)
+   * - 5xx / network errors: no restrictions, cached briefly so the host is re-checked soon
+   */
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    let robots: RobotsTxt;
+    let ttl = this.cacheTtlMs;
+
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgent },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.fetchTimeout)
+      });
+
+      if (response.ok) {
+        robots = RobotsTxt.parse(await response.text());
+      } else {
+        robots = RobotsTxt.allowAll();
+        if (response.status >= 500) {
+          ttl = Math.min(ttl, 5 * 60 * 1000);
+          this.logger.warn(`robots.txt for ${origin} returned ${response.status}, allowing for now`);
+        }
+      }
+    } catch (error) {
+      robots = RobotsTxt.allowAll();
+      ttl = Math.min(ttl, 5 * 60 * 1000);
+      this.logger.warn(`Failed to fetch robots.txt for ${origin}: ${error.message}`);
+    }
+
+    this.cache.set(origin, { robots, expiresAt: Date.now() + ttl });
+    return robots;
+  }
+}
@@ -1,6 +1,6 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { Page, HTTPResponse, PuppeteerLifeCycleEvent } from 'puppeteer';
 import { createHash } from 'crypto';
 // import UserAgent from 'user-agents';
 import { 
@@ -8,92 +8,197 @@ import {
   ScrapeRequest,
   ScrapeResult,
   ScrapeFailure,
-  ScrapeStarted
+  ScrapeStarted,
+  ScrapeDeferred,
+  ScrapeCancelled,
+  ScrapeOptions,
+  ScrapeArtifact,
+  ArtifactKind,
+  ScreenshotFormat,
+  PdfPaperFormat,
+  RenderMode,
+  ContentKind,
+  WaitStrategy,
+  BlockableResource,
+  FailureCategory
 } from '../interfaces/scrape.interface';
 import { RabbitMQUtil } from '../utils/rabbitmq.util';
 import { HttpErrorHandler } from '../utils/http-error-handler';
+import { ContentExtractor } from '../utils/content-extractor.util';
+import { MetadataExtractor } from '../utils/metadata-extractor.util';
+import { LinkExtractor } from '../utils/link-extractor.util';
+import { ContentFingerprint } from '../utils/content-fingerprint.util';
+import { HttpFetcher } from '../utils/http-fetcher.util';
+import { BodyDecoder } from '../utils/body-decoder.util';
+import { RenderDetector } from '../utils/render-detector.util';
+import { RobotsService } from './robots.service';
+import { PolitenessService, PolitenessLease } from './politeness.service';
+import { BrowserPoolService, BrowserLease } from './browser-pool.service';
+import { CancellationService } from './cancellation.service';
+
+// A fetched page, whichever way it was fetched
+interface FetchedPage {
+  kind: ContentKind;
+  // Rendered or decoded markup of HTML pages
+  html?: string;
+  // Bytes as served, for every other kind
+  body?: Buffer;
+  contentType: string;
+  httpStatus: number;
+  finalUrl: string;
+  redirectChain: string[];
+  headers: Record<string, string>;
+  renderMode: RenderMode;
+  renderFallbackReason?: string;
+}
 
 @Injectable()
-export class ScraperService implements OnModuleInit, OnModuleDestroy {
+export class ScraperService implements OnModuleInit {
+  private static readonly DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+  // Delay for a deferred job when the politeness check gave no wait time
+  private static readonly DEFAULT_DEFER_MS = 1000;
+
   private readonly logger = new Logger(ScraperService.name);
-  private browser: Browser | null = null;
   private readonly concurrentScrapers: number;
   private readonly timeout: number;
   private readonly retryCount: number;
+  private readonly politenessMaxWait: number;
+  private readonly artifactMaxBytes: number;
+  private readonly httpMaxRedirects: number;
+  private readonly httpMaxBodyBytes: number;
 
   constructor(
     private readonly rabbitMQClient: RabbitMQUtil,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly robotsService: RobotsService,
+    private readonly politenessService: PolitenessService,
+    private readonly browserPool: BrowserPoolService,
+    private readonly cancellation: CancellationService
   ) {
-    this.concurrentScrapers = this.configService.get<number>('CONCURRENT_SCRAPERS', 3);
+    this.concurrentScrapers = Number(this.configService.get<number>('CONCURRENT_SCRAPERS', 3));
     this.timeout = this.configService.get<number>('PUPPETEER_TIMEOUT', 15000); // Reduced from 60s to 15s
     this.retryCount = this.configService.get<number>('MAX_RETRIES', 3);
+    this.politenessMaxWait = this.configService.get<number>('POLITENESS_MAX_WAIT_MS', 10000);
+    this.artifactMaxBytes = Number(this.configService.get<number>('ARTIFACT_MAX_BYTES', 20 * 1024 * 1024));
+    this.httpMaxRedirects = Number(this.configService.get<number>('HTTP_MAX_REDIRECTS', 10));
+    this.httpMaxBodyBytes = Number(this.configService.get<number>('HTTP_MAX_BODY_BYTES', 10 * 1024 * 1024));
   }
 
   async onModuleInit(): Promise<void> {
-    await this.initializeBrowser();
+    await this.browserPool.start();
     await this.startConsumer();
   }
 
-  async onModuleDestroy(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-    }
-  }
-
-  private async initializeBrowser(): Promise<void> {
-    this.browser = await puppeteer.launch({
-      headless: 'new',
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-        '--disable-web-security',
-        '--disable-features=VizDisplayCompositor'
-      ]
-    });
-    this.logger.log('Browser initialized');
-  }
-
-  async scrapeUrl(request: ScrapeRequest): Promise<ScrapeResult | ScrapeFailure> {
+  async scrapeUrl(request: ScrapeRequest): Promise<ScrapeResult | ScrapeFailure | ScrapeDeferred | ScrapeCancelled> {
     const startTime = Date.now();
-    const userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+    const options = request.options || {};
+    const userAgent = options.userAgent || request.userAgent || ScraperService.DEFAULT_USER_AGENT;
+    const timeout = options.timeout || request.timeout || this.timeout;
     let page: Page | null = null;
+    let browserLease: BrowserLease | null = null;
+    let lease: PolitenessLease | null = null;
+
+    if (this.cancellation.isCancelled(request.id)) {
+      return this.createCancelled(request);
+    }
+    const signal = this.cancellation.track(request.id);
 
     try {
+      // Respect site policy before touching the page
+      const robots = await this.robotsService.check(request.url);
+      if (!robots.allowed) {
+        this.logger.warn(`🤖 Blocked by robots.txt: ${request.url} (${robots.rule})`);
+        return this.createFailure(
+          request,
+          `Disallowed by robots.txt (${robots.rule})`,
+          false,
+          undefined,
+          Date.now() - startTime,
+          FailureCategory.ROBOTS_DISALLOWED
+        );
+      }
+
+      // Per-host limits shared by all replicas; Crawl-delay raises the minimum delay.
+      // The lease must outlive this request's timeout, not just the default one.
+      lease = await this.politenessService.acquire(request.url, this.politenessMaxWait, robots.crawlDelay, timeout);
+      if (!lease.acquired) {
+        return {
+          id: request.id,
+          url: request.url,
+          deferred: true,
+          reason: `Host ${lease.host} is at its politeness limit`,
+          retryAfterMs: lease.retryAfterMs
+        };
+      }
+
+      // Cancelled while waiting for the host
+      if (signal.aborted) {
+        return this.createCancelled(request);
+      }
+
       // Send started notification
       const startedNotification: ScrapeStarted = {
         id: request.id,
         url: request.url,
+        dispatchId: request.dispatchId,
         startedAt: new Date(),
         userAgent
       };
       await this.rabbitMQClient.publish(QueueNames.SCRAPE_STARTED, startedNotification);
 
-      if (!this.browser) {
-        throw new Error('Browser not initialized');
+      let renderMode = this.getRenderMode(options);
+      let fallbackReason: string | undefined;
+
+      // Captures and selector waits only exist in the browser
+      if (renderMode === RenderMode.AUTO && (options.screenshot || options.pdf || options.waitForSelector)) {
+        renderMode = RenderMode.BROWSER;
+        fallbackReason = 'browser-only options requested';
       }
 
-      page = await this.browser.newPage();
+      if (renderMode !== RenderMode.BROWSER) {
+        this.logger.log(`🚀 Starting HTTP fetch: ${request.url} (mode: ${renderMode}, timeout: ${timeout}ms)`);
+        const fetched = await this.fetchOverHttp(request, options, userAgent, timeout, signal);
+
+        fallbackReason = renderMode === RenderMode.AUTO ? this.getFallbackReason(fetched) : undefined;
+
+        if (!fallbackReason) {
+          return await this.completeOverHttp(request, fetched, userAgent, startTime);
+        }
+
+        this.logger.log(`🔁 Falling back to the browser for ${request.url}: ${fallbackReason}`);
+      }
+
+      // Fresh incognito context: no cookies or storage carried over from other jobs
+      browserLease = await this.browserPool.acquire();
+      page = browserLease.page;
+
+      // Closing the page is what interrupts a running page.goto
+      const openPage = page;
+      signal.addEventListener('abort', () => openPage.close().catch(() => undefined), { once: true });
+      if (signal.aborted) {
+        return this.createCancelled(request);
+      }
       
       // Performance optimizations
       await page.setUserAgent(userAgent);
-      await page.setViewport({ width: 1920, height: 1080 });
-      
-      // Disable images and CSS for faster loading (optional)
-      const disableImages = this.configService.get<boolean>('DISABLE_IMAGES', true);
-      const disableCSS = this.configService.get<boolean>('DISABLE_CSS', false);
+      await page.setViewport(options.viewport || { width: 1920, height: 1080 });
+
+      if (options.headers && Object.keys(options.headers).length) {
+        await page.setExtraHTTPHeaders(options.headers);
+      }
+
+      if (options.cookies?.length) {
+        // Cookies without a domain are scoped to the requested URL
+        await page.setCookie(...options.cookies.map(cookie => cookie.domain ? cookie : { ...cookie, url: request.url }));
+      }
       
-      if (disableImages || disableCSS) {
+      // Abort resource types that are not needed for the content
+      const blocked = this.getBlockedResources(options);
+      if (blocked.length) {
         await page.setRequestInterception(true);
         
         page.on('request', (req) => {
-          const resourceType = req.resourceType();
-          
-          if (disableImages && ['image', 'stylesheet', 'font'].includes(resourceType)) {
-            req.abort();
-          } else if (disableCSS && resourceType === 'stylesheet') {
+          if (blocked.includes(req.resourceType())) {
             req.abort();
           } else {
             req.continue();
@@ -101,33 +206,24 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
         });
       }
       
-      // Try multiple wait strategies for better compatibility
-      const waitStrategy = this.configService.get<string>('WAIT_STRATEGY', 'fast');
-      let waitUntil: any;
+      const waitStrategy = options.waitStrategy || this.configService.get<string>('WAIT_STRATEGY', WaitStrategy.FAST);
+      const waitUntil = this.getWaitUntil(waitStrategy);
       
-      switch (waitStrategy) {
-        case 'comprehensive':
-          waitUntil = 'networkidle2'; // Slow but thorough
-          break;
-        case 'moderate':
-          waitUntil = 'networkidle0'; // Faster than networkidle2
-          break;
-        case 'basic':
-          waitUntil = 'load'; // Wait for load event
-          break;
-        case 'fast':
-        default:
-          waitUntil = 'domcontentloaded'; // Fastest - just wait for DOM
-          break;
-      }
-      
-      this.logger.log(`🚀 Starting scrape: ${request.url} (strategy: ${waitStrategy}, timeout: ${this.timeout}ms)`);
+      this.logger.log(`🚀 Starting scrape: ${request.url} (strategy: ${waitStrategy}, timeout: ${timeout}ms)`);
       const navigationStart = Date.now();
       
-      const response = await page.goto(request.url, {
-        waitUntil,
-        timeout: this.timeout
-      });
+      let response: HTTPResponse | null;
+      try {
+        response = await page.goto(request.url, { waitUntil, timeout });
+      } catch (error) {
+        // Chrome aborts navigations to responses it downloads instead of displaying
+        if (!error.message?.includes('net::ERR_ABORTED')) {
+          throw error;
+        }
+        this.logger.log(`📥 Browser did not display ${request.url}, fetching it over HTTP`);
+        const fetched = await this.fetchOverHttp(request, options, userAgent, timeout, signal);
+        return await this.completeOverHttp(request, { ...fetched, renderFallbackReason: 'browser aborted the navigation (download)' }, userAgent, startTime);
+      }
       
       const navigationTime = Date.now() - navigationStart;
       this.logger.log(`📄 Navigation completed for ${request.url} in ${navigationTime}ms`);
@@ -141,12 +237,45 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
       const redirectChain = response.request().redirectChain().map(req => req.url());
 
       if (httpStatus >= 400) {
-        const errorHandler = HttpErrorHandler.handle(null, response);
-        return this.createFailure(request, errorHandler.errorMessage, errorHandler.canRetry, httpStatus);
+        return this.createHttpFailure(request, httpStatus, response.headers());
+      }
+
+      const contentType = response.headers()['content-type'] || 'text/html';
+      const kind = BodyDecoder.kindOf(contentType);
+
+      if (kind !== ContentKind.HTML) {
+        // Chrome wraps JSON, text and PDFs in its own viewer; keep the bytes as served
+        const body = await response.buffer().catch(() => null);
+        if (!body) {
+          const fetched = await this.fetchOverHttp(request, options, userAgent, timeout, signal);
+          return await this.completeOverHttp(request, { ...fetched, renderFallbackReason: 'browser could not read the response body' }, userAgent, startTime);
+        }
+        if (body.length > this.httpMaxBodyBytes) {
+          throw new Error(`Response body exceeds ${this.httpMaxBodyBytes} bytes`);
+        }
+
+        return await this.buildResult(request, {
+          kind,
+          body,
+          contentType,
+          httpStatus,
+          finalUrl,
+          redirectChain,
+          headers: response.headers(),
+          renderMode: RenderMode.BROWSER,
+          renderFallbackReason: fallbackReason
+        }, userAgent, startTime, []);
+      }
+
+      if (options.waitForSelector) {
+        // Shares the navigation timeout budget
+        const remaining = Math.max(timeout - navigationTime, 1000);
+        this.logger.log(`⏳ Waiting up to ${remaining}ms for selector ${options.waitForSelector}...`);
+        await page.waitForSelector(options.waitForSelector, { timeout: remaining });
       }
 
       // Additional wait for dynamic content if needed
-      const waitForDynamic = this.configService.get<number>('DYNAMIC_WAIT_MS', 0);
+      const waitForDynamic = options.dynamicWaitMs ?? this.configService.get<number>('DYNAMIC_WAIT_MS', 0);
       if (waitForDynamic > 0) {
         this.logger.log(`⏳ Waiting ${waitForDynamic}ms for dynamic content...`);
         await page.waitForTimeout(waitForDynamic);
@@ -155,31 +284,28 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
       const contentStart = Date.now();
       const content = await page.content();
       const contentTime = Date.now() - contentStart;
-      
-      const contentType = response.headers()['content-type'] || 'text/html';
-      const contentLength = Buffer.byteLength(content, 'utf8');
-      const contentHash = createHash('sha256').update(content).digest('hex');
-      const totalResponseTime = Date.now() - startTime;
+      this.logger.log(`📄 Content read for ${request.url} (nav: ${navigationTime}ms, content: ${contentTime}ms)`);
 
-      this.logger.log(`✅ Scraped ${request.url}: ${contentLength} bytes in ${totalResponseTime}ms (nav: ${navigationTime}ms, content: ${contentTime}ms)`);
+      const artifacts = await this.captureArtifacts(page, options, finalUrl);
 
-      return {
-        id: request.id,
-        url: request.url,
-        success: true,
-        content,
+      return await this.buildResult(request, {
+        kind,
+        html: content,
         contentType,
         httpStatus,
         finalUrl,
-        responseTime: totalResponseTime,
-        contentLength,
-        contentHash,
-        userAgent: userAgent,
         redirectChain,
-        scrapedAt: new Date()
-      };
+        headers: response.headers(),
+        renderMode: RenderMode.BROWSER,
+        renderFallbackReason: fallbackReason
+      }, userAgent, startTime, artifacts);
 
     } catch (error) {
+      if (signal.aborted) {
+        this.logger.log(`🛑 Stopped ${request.url}: cancelled`);
+        return this.createCancelled(request);
+      }
+
       const responseTime = Date.now() - startTime;
       const errorHandler = HttpErrorHandler.handle(error);
       
@@ -190,13 +316,267 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
         errorHandler.errorMessage, 
         errorHandler.canRetry,
         errorHandler.httpStatus,
-        responseTime
+        responseTime,
+        errorHandler.category
       );
     } finally {
-      if (page) {
-        await page.close();
+      this.cancellation.release(request.id);
+      await browserLease?.release();
+      await this.politenessService.release(lease);
+    }
+  }
+
+  /**
+   * Plain HTTP fetch of the request URL, with the HTML decoded when the body is HTML
+   */
+  private async fetchOverHttp(
+    request: ScrapeRequest,
+    options: ScrapeOptions,
+    userAgent: string,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<FetchedPage> {
+    const fetched = await HttpFetcher.fetch(request.url, {
+      userAgent,
+      timeout,
+      signal,
+      maxRedirects: this.httpMaxRedirects,
+      maxBodyBytes: this.httpMaxBodyBytes,
+      headers: options.headers,
+      cookies: options.cookies
+    });
+    const kind = BodyDecoder.kindOf(fetched.contentType);
+
+    return {
+      kind,
+      html: kind === ContentKind.HTML ? BodyDecoder.text(fetched.body, fetched.contentType) : undefined,
+      body: kind === ContentKind.HTML ? undefined : fetched.body,
+      contentType: fetched.contentType,
+      httpStatus: fetched.status,
+      finalUrl: fetched.finalUrl,
+      redirectChain: fetched.redirectChain,
+      headers: fetched.headers,
+      renderMode: RenderMode.HTTP
+    };
+  }
+
+  private async completeOverHttp(
+    request: ScrapeRequest,
+    page: FetchedPage,
+    userAgent: string,
+    startTime: number
+  ): Promise<ScrapeResult | ScrapeFailure> {
+    if (page.httpStatus >= 400) {
+      return this.createHttpFailure(request, page.httpStatus, page.headers);
+    }
+    return this.buildResult(request, page, userAgent, startTime, []);
+  }
+
+  /**
+   * Extraction and hashing shared by both render modes. HTML goes through the
+   * extractors; other kinds are decoded by BodyDecoder and keep their raw bytes.
+   * Length and hashes are always computed from the body that is stored.
+   */
+  private async buildResult(
+    request: ScrapeRequest,
+    page: FetchedPage,
+    userAgent: string,
+    startTime: number,
+    artifacts: ScrapeArtifact[]
+  ): Promise<ScrapeResult> {
+    const { finalUrl } = page;
+    const result: ScrapeResult = {
+      id: request.id,
+      url: request.url,
+      dispatchId: request.dispatchId,
+      success: true,
+      contentType: page.contentType,
+      contentKind: page.kind,
+      httpStatus: page.httpStatus,
+      finalUrl,
+      responseTime: 0,
+      contentLength: 0,
+      userAgent: userAgent,
+      redirectChain: page.redirectChain,
+      artifacts: artifacts.length ? artifacts : undefined,
+      renderMode: page.renderMode,
+      renderFallbackReason: page.renderFallbackReason,
+      scrapedAt: new Date()
+    };
+
+    if (page.kind === ContentKind.HTML) {
+      const content = page.html;
+      const extracted = this.extractSafely('content', finalUrl, () => ContentExtractor.extract(content, finalUrl));
+
+      Object.assign(result, {
+        content,
+        contentLength: Buffer.byteLength(content, 'utf8'),
+        contentHash: createHash('sha256').update(content).digest('hex'),
+        textHash: this.extractSafely('fingerprint', finalUrl, () => ContentFingerprint.compute(content, request.ignoreSelectors)),
+        textContent: extracted?.textContent,
+        markdown: extracted?.markdown,
+        wordCount: extracted?.wordCount,
+        metadata: this.extractSafely('metadata', finalUrl, () => MetadataExtractor.extract(content, finalUrl)),
+        links: this.extractSafely('link', finalUrl, () => LinkExtractor.extract(content, finalUrl)),
+        robotsDirectives: this.robotsService.getPageDirectives(content, page.headers)
+      });
+    } else {
+      const decoded = await BodyDecoder.decode(page.body, page.contentType, page.kind).catch(error => {
+        this.logger.warn(`${page.kind} decoding failed for ${finalUrl}: ${error.message}`);
+        return {};
+      });
+
+      Object.assign(result, decoded, {
+        rawBody: page.body.toString('base64'),
+        contentLength: page.body.length,
+        contentHash: createHash('sha256').update(page.body).digest('hex'),
+        robotsDirectives: this.robotsService.getPageDirectives('', page.headers)
+      });
+    }
+
+    result.responseTime = Date.now() - startTime;
+    this.logger.log(`✅ Scraped ${request.url} via ${page.renderMode} (${page.kind}): ${result.contentLength} bytes in ${result.responseTime}ms`);
+
+    return result;
+  }
+
+  private getRenderMode(options: ScrapeOptions): RenderMode {
+    const mode = options.renderMode || this.configService.get<string>('RENDER_MODE', RenderMode.BROWSER);
+    return Object.values(RenderMode).includes(mode as RenderMode) ? mode as RenderMode : RenderMode.BROWSER;
+  }
+
+  /**
+   * AUTO mode: why the HTTP response is not good enough, or undefined to keep it
+   */
+  private getFallbackReason(fetched: FetchedPage): string | undefined {
+    // Bot protection often turns plain clients away but lets browsers through
+    if (fetched.httpStatus === 401 || fetched.httpStatus === 403) {
+      return `HTTP ${fetched.httpStatus} for plain HTTP client`;
+    }
+
+    if (fetched.httpStatus >= 400 || fetched.kind !== ContentKind.HTML) {
+      return undefined;
+    }
+
+    return RenderDetector.needsBrowser(fetched.html, fetched.contentType) || undefined;
+  }
+
+  /**
+   * Resource types to abort: the request's own list when given, nothing when
+   * a capture is requested, otherwise the DISABLE_IMAGES / DISABLE_CSS defaults
+   */
+  private getBlockedResources(options: ScrapeOptions): string[] {
+    if (options.blockResources) {
+      return options.blockResources;
+    }
+
+    // Captures should look like the page a visitor sees
+    if (options.screenshot || options.pdf) {
+      return [];
+    }
+
+    const blocked: string[] = [];
+    if (`${this.configService.get('DISABLE_IMAGES', true)}` !== 'false') {
+      blocked.push(BlockableResource.IMAGE, BlockableResource.STYLESHEET, BlockableResource.FONT);
+    }
+    if (`${this.configService.get('DISABLE_CSS', false)}` === 'true' && !blocked.includes(BlockableResource.STYLESHEET)) {
+      blocked.push(BlockableResource.STYLESHEET);
+    }
+    return blocked;
+  }
+
+  private getWaitUntil(waitStrategy: string): PuppeteerLifeCycleEvent {
+    switch (waitStrategy) {
+      case WaitStrategy.COMPREHENSIVE:
+        return 'networkidle2'; // Slow but thorough
+      case WaitStrategy.MODERATE:
+        return 'networkidle0'; // Faster than networkidle2
+      case WaitStrategy.BASIC:
+        return 'load'; // Wait for load event
+      case WaitStrategy.FAST:
+      default:
+        return 'domcontentloaded'; // Fastest - just wait for DOM
+    }
+  }
+
+  /**
+   * Screenshot and PDF of the open page, as requested. Best effort like the
+   * extractors: a failed or oversized capture is left out of the result.
+   */
+  private async captureArtifacts(page: Page, options: ScrapeOptions, url: string): Promise<ScrapeArtifact[]> {
+    const artifacts: ScrapeArtifact[] = [];
+
+    if (options.screenshot) {
+      const format = options.screenshot.format || ScreenshotFormat.PNG;
+      const data = await this.captureSafely(ArtifactKind.SCREENSHOT, url, async () => {
+        return Buffer.from(await page.screenshot({
+          type: format,
+          quality: format === ScreenshotFormat.JPEG ? options.screenshot.quality ?? 80 : undefined,
+          fullPage: options.screenshot.fullPage ?? true,
+          captureBeyondViewport: options.screenshot.fullPage ?? true
+        }));
+      });
+      if (data) {
+        artifacts.push({ kind: ArtifactKind.SCREENSHOT, contentType: `image/${format}`, data });
+      }
+    }
+
+    if (options.pdf) {
+      const data = await this.captureSafely(ArtifactKind.PDF, url, async () => {
+        return page.pdf({
+          format: options.pdf.format || PdfPaperFormat.A4,
+          landscape: options.pdf.landscape ?? false,
+          printBackground: options.pdf.printBackground ?? true
+        });
+      });
+      if (data) {
+        artifacts.push({ kind: ArtifactKind.PDF, contentType: 'application/pdf', data });
+      }
+    }
+
+    return artifacts;
+  }
+
+  private async captureSafely(kind: ArtifactKind, url: string, capture: () => Promise<Buffer>): Promise<string | undefined> {
+    try {
+      const buffer = await capture();
+      if (buffer.length > this.artifactMaxBytes) {
+        this.logger.warn(`${kind} of ${url} dropped: ${buffer.length} bytes exceeds ARTIFACT_MAX_BYTES (${this.artifactMaxBytes})`);
+        return undefined;
       }
+
+      this.logger.log(`📸 Captured ${kind} of ${url} (${buffer.length} bytes)`);
+      return buffer.toString('base64');
+    } catch (error) {
+      this.logger.warn(`${kind} capture failed for ${url}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Extraction is best effort - a parsing problem must not fail the scrape
+   */
+  private extractSafely<T>(label: string, url: string, extractor: () => T): T | undefined {
+    try {
+      return extractor();
+    } catch (error) {
+      this.logger.warn(`${label} extraction failed for ${url}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private createHttpFailure(request: ScrapeRequest, httpStatus: number, headers: Record<string, string> = {}): ScrapeFailure {
+    const errorHandler = HttpErrorHandler.fromResponse(httpStatus, headers);
+    const failure = this.createFailure(request, errorHandler.errorMessage, errorHandler.canRetry, httpStatus, undefined, errorHandler.category);
+
+    if (errorHandler.retryAfterSeconds !== undefined) {
+      failure.retryAfterSeconds = errorHandler.retryAfterSeconds;
     }
+    return failure;
+  }
+
+  private createCancelled(request: ScrapeRequest): ScrapeCancelled {
+    return { id: request.id, url: request.url, cancelled: true };
   }
 
   private createFailure(
@@ -204,16 +584,19 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
     errorMessage: string,
     canRetry: boolean,
     httpStatus?: number,
-    responseTime?: number
+    responseTime?: number,
+    category?: FailureCategory
   ): ScrapeFailure {
     const failure: ScrapeFailure = {
       id: request.id,
       url: request.url,
+      dispatchId: request.dispatchId,
       errorMessage,
       retryCount: request.retryCount || 0,
       maxRetries: this.retryCount,
       canRetry: canRetry && (request.retryCount || 0) < this.retryCount,
       httpStatus,
+      category,
       failedAt: new Date()
     };
 
@@ -226,7 +609,7 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Starting scrape request consumer...');
     
     try {
-      // Set up proper concurrency with prefetch
+      // The channel prefetch (CONCURRENT_SCRAPERS) bounds how many of these run at once
       await this.rabbitMQClient.consume(
         QueueNames.SCRAPE_REQUESTS, 
         async (request: ScrapeRequest) => {
@@ -235,7 +618,16 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
           try {
             const result = await this.scrapeUrl(request);
             
-            if ('success' in result && result.success) {
+            // Also covers a cancellation that arrived after the page was done
+            if ('cancelled' in result || this.cancellation.isCancelled(request.id)) {
+              this.logger.log(`🛑 Skipped cancelled request ${request.url} (ID: ${request.id})`);
+            } else if ('deferred' in result) {
+              // Not a failure: put the job back without touching its retry count or priority,
+              // held until the host has a slot so it does not spin through the queue
+              const delayMs = result.retryAfterMs || ScraperService.DEFAULT_DEFER_MS;
+              await this.rabbitMQClient.publishDelayed(QueueNames.SCRAPE_REQUESTS, request, delayMs, { priority: request.priority });
+              this.logger.log(`⏸️ Deferred ${request.url} for ${delayMs}ms: ${result.reason}`);
+            } else if ('success' in result && result.success) {
               await this.rabbitMQClient.publish(QueueNames.SCRAPE_RESULTS, result);
               this.logger.log(`Successfully scraped ${request.url}`);
             } else {
@@ -249,7 +641,10 @@ export class ScraperService implements OnModuleInit, OnModuleDestroy {
             const failure = this.createFailure(
               request,
               `Processing error: ${processingError.message}`,
-              true
+              true,
+              undefined,
+              undefined,
+              FailureCategory.PROCESSING_ERROR
             );
             
             await this.rabbitMQClient.publish(QueueNames.SCRAPE_FAILURES, failure);
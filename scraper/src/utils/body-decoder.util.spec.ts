@@ -0,0 +1,54 @@
+import { BodyDecoder } from './body-decoder.util';
+import { ContentKind } from '../interfaces/scrape.interface';
+
+describe('BodyDecoder', () => {
+  describe('kindOf', () => {
+    it.each([
+      [undefined, ContentKind.HTML],
+      ['', ContentKind.HTML],
+      ['text/html; charset=utf-8', ContentKind.HTML],
+      ['application/xhtml+xml', ContentKind.HTML],
+      ['application/json', ContentKind.JSON],
+      ['application/ld+json; charset=UTF-8', ContentKind.JSON],
+      ['application/xml', ContentKind.XML],
+      ['text/xml', ContentKind.XML],
+      ['application/rss+xml', ContentKind.XML],
+      ['image/svg+xml', ContentKind.XML],
+      ['application/pdf', ContentKind.PDF],
+      ['TEXT/PLAIN', ContentKind.TEXT],
+      ['text/csv', ContentKind.TEXT],
+      ['application/javascript', ContentKind.TEXT],
+      ['application/x-ndjson', ContentKind.TEXT],
+      ['image/png', ContentKind.BINARY],
+      ['application/octet-stream', ContentKind.BINARY]
+    ])('classifies %s as %s', (contentType, kind) => {
+      expect(BodyDecoder.kindOf(contentType)).toBe(kind);
+    });
+  });
+
+  describe('text', () => {
+    it('decodes UTF-8 by default', () => {
+      expect(BodyDecoder.text(Buffer.from('naïve café', 'utf-8'))).toBe('naïve café');
+    });
+
+    it('uses the charset from Content-Type', () => {
+      const bytes = Buffer.from([0x63, 0x61, 0x66, 0xe9]);
+
+      expect(BodyDecoder.text(bytes, 'text/plain; charset=ISO-8859-1')).toBe('café');
+    });
+
+    it('falls back to a <meta charset> in the body', () => {
+      const bytes = Buffer.concat([
+        Buffer.from('<html><head><meta charset="windows-1252"></head><body>'),
+        Buffer.from([0x63, 0x61, 0x66, 0xe9]),
+        Buffer.from('</body></html>')
+      ]);
+
+      expect(BodyDecoder.text(bytes, 'text/html')).toContain('<body>café</body>');
+    });
+
+    it('decodes as UTF-8 when the charset is unknown', () => {
+      expect(BodyDecoder.text(Buffer.from('café', 'utf-8'), 'text/plain; charset=no-such-charset')).toBe('café');
+    });
+  });
+});
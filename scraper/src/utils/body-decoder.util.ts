@@ -0,0 +1,116 @@
+import * as cheerio from 'cheerio';
+import pdfParse = require('pdf-parse');
+import { ContentKind } from '../interfaces/scrape.interface';
+
+export interface DecodedBody {
+  // Stored as the record's content: pretty JSON, the text itself, or the PDF's text
+  content?: string;
+  textContent?: string;
+  markdown?: string;
+  wordCount?: number;
+}
+
+/**
+ * Turns non-HTML response bodies into text fields. HTML goes through
+ * ContentExtractor instead; binary bodies yield no text at all.
+ */
+export class BodyDecoder {
+  static kindOf(contentType: string = ''): ContentKind {
+    const mime = contentType.split(';')[0].trim().toLowerCase();
+
+    if (!mime || mime === 'text/html' || mime === 'application/xhtml+xml') {
+      return ContentKind.HTML;
+    }
+    if (mime === 'application/json' || mime.endsWith('+json')) {
+      return ContentKind.JSON;
+    }
+    if (mime === 'application/xml' || mime === 'text/xml' || mime.endsWith('+xml')) {
+      return ContentKind.XML;
+    }
+    if (mime === 'application/pdf') {
+      return ContentKind.PDF;
+    }
+    if (mime.startsWith('text/') || mime === 'application/javascript' || mime === 'application/x-ndjson') {
+      return ContentKind.TEXT;
+    }
+    return ContentKind.BINARY;
+  }
+
+  static async decode(bytes: Buffer, contentType: string, kind: ContentKind): Promise<DecodedBody> {
+    switch (kind) {
+      case ContentKind.JSON:
+        return this.decodeJson(this.text(bytes, contentType));
+      case ContentKind.XML:
+        return this.decodeXml(this.text(bytes, contentType));
+      case ContentKind.TEXT:
+        return this.withText(this.text(bytes, contentType));
+      case ContentKind.PDF:
+        return this.decodePdf(bytes);
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Text with the charset from Content-Type or <meta charset>, UTF-8 otherwise
+   */
+  static text(bytes: Buffer, contentType: string = ''): string {
+    const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1] ||
+      /<meta[^>]+charset=["']?([\w-]+)/i.exec(bytes.subarray(0, 2048).toString('latin1'))?.[1] ||
+      'utf-8';
+
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+
+  // Pretty-printed when it parses, the raw text otherwise
+  private static decodeJson(raw: string): DecodedBody {
+    let pretty = raw;
+    try {
+      pretty = JSON.stringify(JSON.parse(raw), null, 2);
+    } catch {
+      // Malformed JSON is kept as served
+    }
+
+    return {
+      content: pretty,
+      textContent: pretty,
+      markdown: `\`\`\`json\n${pretty}\n\`\`\``,
+      wordCount: this.countWords(pretty)
+    };
+  }
+
+  // Feeds and sitemaps keep their markup as content; the text is the element text
+  private static decodeXml(raw: string): DecodedBody {
+    const $ = cheerio.load(raw, { xmlMode: true });
+    const text = $('*')
+      .filter((_, element) => $(element).children().length === 0)
+      .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      content: raw,
+      textContent: text,
+      markdown: text,
+      wordCount: this.countWords(text)
+    };
+  }
+
+  private static async decodePdf(bytes: Buffer): Promise<DecodedBody> {
+    const { text } = await pdfParse(bytes);
+    return this.withText(text.trim());
+  }
+
+  private static withText(text: string): DecodedBody {
+    return { content: text, textContent: text, markdown: text, wordCount: this.countWords(text) };
+  }
+
+  private static countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -0,0 +1,261 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio, AnyNode, Element } from 'cheerio';
+
+export interface ExtractedContent {
+  textContent: string;
+  markdown: string;
+  wordCount: number;
+}
+
+type RenderMode = 'text' | 'markdown';
+
+export class ContentExtractor {
+  // Elements that never carry main content
+  private static readonly NOISE_SELECTORS = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas',
+    'form', 'button', 'input', 'select', 'textarea',
+    'nav', 'aside', 'menu',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+    '[aria-hidden="true"]', '[hidden]'
+  ];
+
+  // Class/id fragments that usually mark boilerplate blocks
+  private static readonly NOISE_PATTERN = /(^|[-_\s])(comment|sidebar|footer|menu|nav|share|social|cookie|consent|banner|advert|ads?|promo|related|newsletter|popup|modal|breadcrumb)([-_\s]|$)/i;
+
+  private static readonly BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'figure', 'figcaption',
+    'dl', 'dt', 'dd', 'address', 'details', 'summary', 'table', 'tr'
+  ]);
+
+  private static readonly MIN_CANDIDATE_LENGTH = 200;
+
+  /**
+   * Extract the main readable content of an HTML document
+   * - Strips scripts, navigation and other boilerplate
+   * - Picks the densest content block (article/main first)
+   * - Renders it as plain text and as Markdown (headings, lists and links kept)
+   */
+  static extract(html: string, baseUrl: string): ExtractedContent {
+    const $ = cheerio.load(html);
+    const resolvedBase = this.resolveBaseUrl($, baseUrl);
+
+    $(this.NOISE_SELECTORS.join(',')).remove();
+    // Page-level headers/footers are chrome, but an article's own header holds its title
+    $('header, footer').filter((_, el) => !$(el).parents('article, main').length).remove();
+    $('[class], [id]').each((_, el) => {
+      const marker = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+      if (this.NOISE_PATTERN.test(marker) && !['body', 'main', 'article'].includes(el.tagName)) {
+        $(el).remove();
+      }
+    });
+
+    const root = this.findMainContent($);
+
+    const textContent = this.cleanup(this.renderChildren(root.get(0), 'text', resolvedBase, 0));
+    const markdown = this.cleanup(this.renderChildren(root.get(0), 'markdown', resolvedBase, 0));
+    const wordCount = textContent ? textContent.split(/\s+/).filter(Boolean).length : 0;
+
+    return { textContent, markdown, wordCount };
+  }
+
+  private static resolveBaseUrl($: CheerioAPI, baseUrl: string): string {
+    const baseHref = $('base[href]').attr('href');
+    return baseHref ? this.toAbsoluteUrl(baseHref, baseUrl) || baseUrl : baseUrl;
+  }
+
+  /**
+   * Prefer semantic containers, otherwise score blocks by paragraph text
+   * with a penalty for link-heavy blocks
+   */
+  private static findMainContent($: CheerioAPI): Cheerio<AnyNode> {
+    for (const selector of ['article', 'main', '[role="main"]']) {
+      const candidates = $(selector).toArray()
+        .map(el => $(el))
+        .sort((a, b) => b.text().length - a.text().length);
+
+      if (candidates.length && candidates[0].text().trim().length >= this.MIN_CANDIDATE_LENGTH) {
+        return candidates[0];
+      }
+    }
+
+    const scores = new Map<Element, number>();
+
+    $('p, pre, li, td, blockquote').each((_, el) => {
+      const textLength = $(el).text().trim().length;
+      if (textLength < 25) return;
+
+      const score = 1 + Math.min(Math.floor(textLength / 100), 3) + (($(el).text().match(/,/g) || []).length);
+      const parent = el.parent as Element;
+      const grandparent = parent?.parent as Element;
+
+      if (parent?.type === 'tag') {
+        scores.set(parent, (scores.get(parent) || 0) + score);
+      }
+      if (grandparent?.type === 'tag') {
+        scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+      }
+    });
+
+    let best: Element | null = null;
+    let bestScore = 0;
+
+    for (const [el, score] of scores) {
+      const text = $(el).text();
+      const linkText = $(el).find('a').text();
+      const linkDensity = text.length ? linkText.length / text.length : 1;
+      const adjusted = score * (1 - linkDensity);
+
+      if (adjusted > bestScore) {
+        best = el;
+        bestScore = adjusted;
+      }
+    }
+
+    if (best && $(best).text().trim().length >= this.MIN_CANDIDATE_LENGTH) {
+      return $(best);
+    }
+
+    return $('body').length ? $('body') : $.root();
+  }
+
+  private static renderChildren(node: any, mode: RenderMode, baseUrl: string, listDepth: number): string {
+    if (!node?.children) return '';
+    return node.children.map((child: any) => this.renderNode(child, mode, baseUrl, listDepth)).join('');
+  }
+
+  private static renderNode(node: any, mode: RenderMode, baseUrl: string, listDepth: number): string {
+    if (node.type === 'text') {
+      return node.data.replace(/\s+/g, ' ');
+    }
+
+    if (node.type !== 'tag') {
+      return '';
+    }
+
+    const tag = node.tagName.toLowerCase();
+    const inner = () => this.renderChildren(node, mode, baseUrl, listDepth);
+    const markdown = mode === 'markdown';
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const heading = this.collapse(inner());
+        if (!heading) return '';
+        const prefix = markdown ? `${'#'.repeat(parseInt(tag[1]))} ` : '';
+        return `\n\n${prefix}${heading}\n\n`;
+      }
+
+      case 'br':
+        return '\n';
+
+      case 'hr':
+        return markdown ? '\n\n---\n\n' : '\n\n';
+
+      case 'img':
+        return '';
+
+      case 'a': {
+        const text = this.collapse(inner());
+        const href = this.toAbsoluteUrl(node.attribs?.href, baseUrl);
+        if (!markdown || !href || !text) return text;
+        return `[${text}](${href})`;
+      }
+
+      case 'strong':
+      case 'b': {
+        const text = this.collapse(inner());
+        return markdown && text ? `**${text}**` : text;
+      }
+
+      case 'em':
+      case 'i': {
+        const text = this.collapse(inner());
+        return markdown && text ? `_${text}_` : text;
+      }
+
+      case 'code': {
+        const text = this.collapse(inner());
+        return markdown && text ? `\`${text}\`` : text;
+      }
+
+      case 'pre': {
+        const text = this.rawText(node).replace(/\n+$/, '');
+        return markdown ? `\n\n\`\`\`\n${text}\n\`\`\`\n\n` : `\n\n${text}\n\n`;
+      }
+
+      case 'blockquote': {
+        const text = this.cleanup(inner());
+        if (!text) return '';
+        return markdown
+          ? `\n\n${text.split('\n').map(line => `> ${line}`).join('\n')}\n\n`
+          : `\n\n${text}\n\n`;
+      }
+
+      case 'ul':
+      case 'ol':
+        return this.renderList(node, tag === 'ol', mode, baseUrl, listDepth);
+
+      case 'td':
+      case 'th':
+        return ` ${this.collapse(inner())} ${markdown ? '|' : ''}`;
+
+      default:
+        if (this.BLOCK_TAGS.has(tag)) {
+          const text = inner();
+          if (tag === 'tr' && markdown) return `\n|${text}`;
+          return `\n\n${text}\n\n`;
+        }
+        return inner();
+    }
+  }
+
+  private static renderList(node: any, ordered: boolean, mode: RenderMode, baseUrl: string, listDepth: number): string {
+    const indent = '  '.repeat(listDepth);
+    const items = (node.children || []).filter((child: any) => child.type === 'tag' && child.tagName === 'li');
+
+    const lines = items.map((item: any, index: number) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const body = this.renderChildren(item, mode, baseUrl, listDepth + 1)
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+      return body ? `${indent}${marker} ${body}` : '';
+    }).filter(Boolean);
+
+    if (!lines.length) return '';
+    return listDepth === 0 ? `\n\n${lines.join('\n')}\n\n` : `\n${lines.join('\n')}`;
+  }
+
+  private static toAbsoluteUrl(href: string | undefined, baseUrl: string): string | null {
+    if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href.trim())) {
+      return null;
+    }
+
+    try {
+      return new URL(href.trim(), baseUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private static rawText(node: any): string {
+    if (node.type === 'text') return node.data;
+    return (node.children || []).map((child: any) => this.rawText(child)).join('');
+  }
+
+  private static collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private static cleanup(text: string): string {
+    return text
+      .split('\n')
+      .map(line => /^\s*(-|\d+\.) /.test(line) ? line.trimEnd() : line.trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
@@ -0,0 +1,28 @@
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+
+export class ContentFingerprint {
+  private static readonly INVISIBLE_SELECTORS = 'script, style, noscript, template, head';
+
+  /**
+   * Hash of the visible page text, used to tell whether a page really changed.
+   * Markup churn (nonces, asset versions, attribute order) does not affect it, and
+   * regions matched by `ignoreSelectors` (timestamps, ads, counters) are left out.
+   * Invalid selectors are skipped rather than failing the scrape.
+   */
+  static compute(html: string, ignoreSelectors: string[] = []): string {
+    const $ = cheerio.load(html);
+    $(this.INVISIBLE_SELECTORS).remove();
+
+    for (const selector of ignoreSelectors) {
+      try {
+        $(selector).remove();
+      } catch {
+        continue;
+      }
+    }
+
+    const text = $.root().text().replace(/\s+/g, ' ').trim();
+    return createHash('sha256').update(text).digest('hex');
+  }
+}
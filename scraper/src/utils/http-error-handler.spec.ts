@@ -0,0 +1,49 @@
+import { HttpErrorHandler } from './http-error-handler';
+import { FailureCategory } from '../interfaces/scrape.interface';
+
+describe('HttpErrorHandler', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('fromResponse', () => {
+    it('retries a 429 after its Retry-After seconds', () => {
+      const result = HttpErrorHandler.fromResponse(429, { 'retry-after': '120' });
+
+      expect(result).toMatchObject({ canRetry: true, httpStatus: 429, retryAfterSeconds: 120, category: FailureCategory.HTTP_ERROR });
+    });
+
+    it('retries a 503 after a Retry-After HTTP date', () => {
+      const now = Date.parse('2025-07-09T12:00:00Z');
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      const result = HttpErrorHandler.fromResponse(503, { 'retry-after': 'Wed, 09 Jul 2025 12:05:00 GMT' });
+
+      expect(result).toMatchObject({ canRetry: true, httpStatus: 503, retryAfterSeconds: 300 });
+    });
+
+    it('does not retry a 404', () => {
+      const result = HttpErrorHandler.fromResponse(404, {});
+
+      expect(result).toMatchObject({ canRetry: false, httpStatus: 404, isTemporary: false });
+      expect(result.errorMessage).toBe('Client error 404: HTTP error');
+      expect(result.retryAfterSeconds).toBeUndefined();
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it.each([
+      [undefined, undefined],
+      ['', undefined],
+      [' 30 ', 30],
+      ['not a date', undefined],
+      ['Wed, 09 Jul 2025 11:00:00 GMT', 0]
+    ])('parses %p as %p', (value, expected) => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-07-09T12:00:00Z'));
+
+      expect(HttpErrorHandler.parseRetryAfter(value)).toBe(expected);
+    });
+  });
+
+  it('classifies a missing error instead of throwing', () => {
+    expect(HttpErrorHandler.handle(null)).toMatchObject({ canRetry: true, category: FailureCategory.UNKNOWN });
+  });
+});
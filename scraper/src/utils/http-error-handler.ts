@@ -1,10 +1,13 @@
-import { HttpStatusCode } from '../interfaces/scrape.interface';
+import { HttpStatusCode, FailureCategory } from '../interfaces/scrape.interface';
 
 export interface HttpErrorResult {
   canRetry: boolean;
   errorMessage: string;
   httpStatus?: number;
   isTemporary: boolean;
+  category: FailureCategory;
+  // From a Retry-After header, typically sent with 429 and 503
+  retryAfterSeconds?: number;
 }
 
 export class HttpErrorHandler {
@@ -12,7 +15,16 @@ export class HttpErrorHandler {
     const httpStatus = response?.status() || error?.status || error?.code;
     
     if (typeof httpStatus === 'number') {
-      return this.handleHttpStatus(httpStatus, error.message || 'HTTP error');
+      return this.handleHttpStatus(httpStatus, error?.message || 'HTTP error');
+    }
+
+    if (!error) {
+      return {
+        canRetry: true,
+        errorMessage: 'Unknown error',
+        isTemporary: true,
+        category: FailureCategory.UNKNOWN
+      };
     }
 
     // Handle Puppeteer/Chrome network errors
@@ -25,7 +37,8 @@ export class HttpErrorHandler {
         canRetry: true,
         errorMessage: 'Request timeout',
         isTemporary: true,
-        httpStatus: HttpStatusCode.TIMEOUT
+        httpStatus: HttpStatusCode.TIMEOUT,
+        category: FailureCategory.TIMEOUT
       };
     }
 
@@ -34,7 +47,8 @@ export class HttpErrorHandler {
       return {
         canRetry: false,
         errorMessage: `DNS resolution failed: ${error.code}`,
-        isTemporary: false
+        isTemporary: false,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -42,7 +56,8 @@ export class HttpErrorHandler {
       return {
         canRetry: true,
         errorMessage: `Connection refused: ${error.code}`,
-        isTemporary: true
+        isTemporary: true,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -50,17 +65,48 @@ export class HttpErrorHandler {
       return {
         canRetry: true,
         errorMessage: `Connection error: ${error.code}`,
-        isTemporary: true
+        isTemporary: true,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
     return {
       canRetry: true, // Default to retryable for unknown errors
       errorMessage: error.message || 'Unknown error',
-      isTemporary: true
+      isTemporary: true,
+      category: FailureCategory.UNKNOWN
     };
   }
 
+  /**
+   * A response that came back with an error status, honouring its Retry-After header
+   */
+  static fromResponse(status: number, headers: Record<string, string> = {}): HttpErrorResult {
+    const result = this.handleHttpStatus(status, 'HTTP error');
+
+    const retryAfterSeconds = this.parseRetryAfter(headers['retry-after']);
+    if (retryAfterSeconds !== undefined) {
+      result.retryAfterSeconds = retryAfterSeconds;
+    }
+    return result;
+  }
+
+  /**
+   * Seconds to wait from a Retry-After header, given either as delta-seconds or as an HTTP date
+   */
+  static parseRetryAfter(value?: string): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    if (/^\s*\d+\s*$/.test(value)) {
+      return Number(value);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+  }
+
   private static handleChromeNetworkError(errorMessage: string): HttpErrorResult {
     // Chrome/Puppeteer network errors
     if (errorMessage.includes('ERR_CONNECTION_REFUSED')) {
@@ -68,7 +114,8 @@ export class HttpErrorHandler {
         canRetry: true,
         errorMessage: 'Connection refused',
         isTemporary: true,
-        httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE
+        httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -78,7 +125,8 @@ export class HttpErrorHandler {
         canRetry: true,
         errorMessage: 'Connection timeout',
         isTemporary: true,
-        httpStatus: HttpStatusCode.TIMEOUT
+        httpStatus: HttpStatusCode.TIMEOUT,
+        category: FailureCategory.TIMEOUT
       };
     }
 
@@ -87,7 +135,8 @@ export class HttpErrorHandler {
         canRetry: false,
         errorMessage: 'DNS resolution failed',
         isTemporary: false,
-        httpStatus: HttpStatusCode.NOT_FOUND
+        httpStatus: HttpStatusCode.NOT_FOUND,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -96,7 +145,8 @@ export class HttpErrorHandler {
         canRetry: false,
         errorMessage: 'SSL certificate error',
         isTemporary: false,
-        httpStatus: HttpStatusCode.BAD_GATEWAY
+        httpStatus: HttpStatusCode.BAD_GATEWAY,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -106,7 +156,8 @@ export class HttpErrorHandler {
         canRetry: true,
         errorMessage: 'Network connectivity issue',
         isTemporary: true,
-        httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE
+        httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE,
+        category: FailureCategory.NETWORK_ERROR
       };
     }
 
@@ -115,7 +166,8 @@ export class HttpErrorHandler {
       canRetry: true,
       errorMessage: `Chrome network error: ${errorMessage}`,
       isTemporary: true,
-      httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE
+      httpStatus: HttpStatusCode.SERVICE_UNAVAILABLE,
+      category: FailureCategory.NETWORK_ERROR
     };
   }
 
@@ -126,7 +178,8 @@ export class HttpErrorHandler {
           canRetry: false,
           errorMessage: 'Success',
           httpStatus: status,
-          isTemporary: false
+          isTemporary: false,
+          category: FailureCategory.HTTP_ERROR
         };
 
       case HttpStatusCode.BAD_REQUEST:
@@ -137,7 +190,8 @@ export class HttpErrorHandler {
           canRetry: false,
           errorMessage: `Client error ${status}: ${message}`,
           httpStatus: status,
-          isTemporary: false
+          isTemporary: false,
+          category: FailureCategory.HTTP_ERROR
         };
 
       case HttpStatusCode.TIMEOUT:
@@ -146,7 +200,8 @@ export class HttpErrorHandler {
           canRetry: true,
           errorMessage: `Rate limited or timeout ${status}: ${message}`,
           httpStatus: status,
-          isTemporary: true
+          isTemporary: true,
+          category: FailureCategory.HTTP_ERROR
         };
 
       case HttpStatusCode.INTERNAL_SERVER_ERROR:
@@ -157,7 +212,8 @@ export class HttpErrorHandler {
           canRetry: true,
           errorMessage: `Server error ${status}: ${message}`,
           httpStatus: status,
-          isTemporary: true
+          isTemporary: true,
+          category: FailureCategory.HTTP_ERROR
         };
 
       default:
@@ -166,7 +222,8 @@ export class HttpErrorHandler {
             canRetry: false,
             errorMessage: 'Success',
             httpStatus: status,
-            isTemporary: false
+            isTemporary: false,
+            category: FailureCategory.HTTP_ERROR
           };
         }
 
@@ -175,7 +232,8 @@ export class HttpErrorHandler {
             canRetry: false,
             errorMessage: `Client error ${status}: ${message}`,
             httpStatus: status,
-            isTemporary: false
+            isTemporary: false,
+            category: FailureCategory.HTTP_ERROR
           };
         }
 
@@ -184,7 +242,8 @@ export class HttpErrorHandler {
             canRetry: true,
             errorMessage: `Server error ${status}: ${message}`,
             httpStatus: status,
-            isTemporary: true
+            isTemporary: true,
+            category: FailureCategory.HTTP_ERROR
           };
         }
 
@@ -192,7 +251,8 @@ export class HttpErrorHandler {
           canRetry: false,
           errorMessage: `Unknown status ${status}: ${message}`,
           httpStatus: status,
-          isTemporary: false
+          isTemporary: false,
+          category: FailureCategory.HTTP_ERROR
         };
     }
   }
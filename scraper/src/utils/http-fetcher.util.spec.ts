@@ -0,0 +1,77 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpFetcher, HttpFetchOptions } from './http-fetcher.util';
+
+describe('HttpFetcher', () => {
+  let origin: Server;
+  let other: Server;
+  let originUrl: string;
+  let otherUrl: string;
+  let received: Record<string, IncomingHttpHeaders>;
+
+  const listen = async (handler: (path: string, send: (status: number, location?: string) => void) => void): Promise<Server> => {
+    const server = createServer((request, response) => {
+      handler(request.url, (status, location) => {
+        received[request.url] = request.headers;
+        response.writeHead(status, location ? { Location: location } : {}).end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return server;
+  };
+
+  const options: HttpFetchOptions = {
+    userAgent: 'test-agent',
+    timeout: 5000,
+    maxRedirects: 5,
+    maxBodyBytes: 1024,
+    headers: { 'Authorization': 'Bearer secret', 'X-Api-Key': 'key' }
+  };
+
+  beforeAll(async () => {
+    other = await listen((_, send) => send(200));
+    otherUrl = `http://127.0.0.1:${(other.address() as AddressInfo).port}`;
+    origin = await listen((path, send) => {
+      if (path === '/away') {
+        send(302, `${otherUrl}/landing`);
+      } else if (path === '/moved') {
+        send(301, '/here');
+      } else {
+        send(200);
+      }
+    });
+    originUrl = `http://127.0.0.1:${(origin.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => origin.close(resolve));
+    await new Promise(resolve => other.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = {};
+  });
+
+  describe('custom headers on redirects', () => {
+    it('keeps them on a redirect within the same origin', async () => {
+      const response = await HttpFetcher.fetch(`${originUrl}/moved`, options);
+
+      expect(response.finalUrl).toBe(`${originUrl}/here`);
+      expect(response.redirectChain).toEqual([`${originUrl}/moved`]);
+      const headers = received['/here'];
+      expect(headers.authorization).toBe('Bearer secret');
+      expect(headers['x-api-key']).toBe('key');
+    });
+
+    it('drops them once a redirect leaves the original origin', async () => {
+      const response = await HttpFetcher.fetch(`${originUrl}/away`, options);
+
+      expect(response.finalUrl).toBe(`${otherUrl}/landing`);
+      expect(received['/away'].authorization).toBe('Bearer secret');
+      const headers = received['/landing'];
+      expect(headers.authorization).toBeUndefined();
+      expect(headers['x-api-key']).toBeUndefined();
+      expect(headers['user-agent']).toBe('test-agent');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ScrapeCookie } from '../interfaces/scrape.interface';
+
+export interface HttpFetchOptions {
+  userAgent: string;
+  timeout: number;
+  maxRedirects: number;
+  maxBodyBytes: number;
+  headers?: Record<string, string>;
+  cookies?: ScrapeCookie[];
+  // Aborts the fetch early, e.g. when the job is cancelled
+  signal?: AbortSignal;
+}
+
+export interface HttpFetchResponse {
+  status: number;
+  finalUrl: string;
+  // Every URL that answered with a redirect, in order (same shape as Puppeteer's redirectChain)
+  redirectChain: string[];
+  headers: Record<string, string>;
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Plain HTTP GET without a browser
+ * - Follows redirects itself to record the chain
+ * - Custom headers are only sent to the origin originally requested, so a redirect
+ *   to another site does not receive its Authorization or other credentials
+ * - gzip / deflate / br bodies are decoded by fetch
+ * - The body is returned as bytes; see BodyDecoder for text
+ */
+export class HttpFetcher {
+  private static readonly REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+  static async fetch(url: string, options: HttpFetchOptions): Promise<HttpFetchResponse> {
+    const timeout = AbortSignal.timeout(options.timeout);
+    const deadline = options.signal ? AbortSignal.any([timeout, options.signal]) : timeout;
+    const redirectChain: string[] = [];
+    let currentUrl = url;
+
+    for (let hop = 0; ; hop++) {
+      const response = await this.request(currentUrl, url, options, deadline);
+
+      const location = response.headers.get('location');
+      if (this.REDIRECT_STATUSES.has(response.status) && location) {
+        if (hop >= options.maxRedirects) {
+          throw new Error(`Too many redirects (more than ${options.maxRedirects})`);
+        }
+        await response.body?.cancel();
+        redirectChain.push(currentUrl);
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      const headers = Object.fromEntries(response.headers.entries());
+      const contentType = headers['content-type'] || 'text/html';
+      return {
+        status: response.status,
+        finalUrl: currentUrl,
+        redirectChain,
+        headers,
+        contentType,
+        body: await this.readBody(response, options.maxBodyBytes)
+      };
+    }
+  }
+
+  private static async request(url: string, originalUrl: string, options: HttpFetchOptions, signal: AbortSignal): Promise<Response> {
+    const sameOrigin = new URL(url).origin === new URL(originalUrl).origin;
+    const headers: Record<string, string> = {
+      'User-Agent': options.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Encoding': 'gzip, deflate, br',
+      ...(sameOrigin ? options.headers : {})
+    };
+
+    const cookie = this.cookieHeader(url, new URL(originalUrl).hostname, options.cookies);
+    if (cookie) {
+      headers['Cookie'] = cookie;
+    }
+
+    try {
+      return await fetch(url, { headers, redirect: 'manual', signal });
+    } catch (error) {
+      // fetch wraps socket errors; the cause carries the code (ENOTFOUND, ECONNRESET...)
+      throw error?.cause?.code ? error.cause : error;
+    }
+  }
+
+  /**
+   * Cookies for this hop: those with a matching domain, or without a
+   * domain when the host is the one originally requested
+   */
+  private static cookieHeader(url: string, originalHost: string, cookies: ScrapeCookie[] = []): string {
+    const { hostname, protocol, pathname } = new URL(url);
+
+    return cookies
+      .filter(cookie => {
+        const domain = (cookie.domain || originalHost).replace(/^\./, '').toLowerCase();
+        const hostMatches = cookie.domain
+          ? hostname === domain || hostname.endsWith(`.${domain}`)
+          : hostname === domain;
+        return hostMatches &&
+          (!cookie.secure || protocol === 'https:') &&
+          pathname.startsWith(cookie.path || '/');
+      })
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  private static async readBody(response: Response, maxBytes: number): Promise<Buffer> {
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    const reader = response.body.getReader();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        throw new Error(`Response body exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(Buffer.from(value));
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,52 @@
+import * as cheerio from 'cheerio';
+import { OutboundLink } from '../interfaces/scrape.interface';
+
+export class LinkExtractor {
+  // Keeps result messages bounded on link-farm pages
+  private static readonly MAX_LINKS = 2000;
+
+  /**
+   * Extract outbound links from an HTML document
+   * - Resolves hrefs against <base href> or the page URL
+   * - Keeps only http(s) targets, drops fragments-only and javascript: links
+   * - Deduplicates by absolute URL (first anchor text wins)
+   */
+  static extract(html: string, baseUrl: string): OutboundLink[] {
+    const $ = cheerio.load(html);
+    const base = this.toAbsoluteUrl($('base[href]').attr('href'), baseUrl) || baseUrl;
+
+    const links = new Map<string, OutboundLink>();
+
+    $('a[href], area[href]').each((_, el) => {
+      if (links.size >= this.MAX_LINKS) return false;
+
+      const href = this.toAbsoluteUrl($(el).attr('href'), base);
+      if (!href || links.has(href)) return;
+
+      links.set(href, {
+        href,
+        text: ($(el).text() || $(el).attr('title') || $(el).attr('alt') || '').replace(/\s+/g, ' ').trim(),
+        rel: ($(el).attr('rel') || '').toLowerCase().split(/\s+/).filter(Boolean)
+      });
+    });
+
+    return Array.from(links.values());
+  }
+
+  private static toAbsoluteUrl(href: string | undefined, baseUrl: string): string | null {
+    if (!href || href.trim().startsWith('#')) {
+      return null;
+    }
+
+    try {
+      const url = new URL(href.trim(), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null;
+      }
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+}
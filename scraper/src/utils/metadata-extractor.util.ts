@@ -0,0 +1,90 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { PageMetadata } from '../interfaces/scrape.interface';
+
+export class MetadataExtractor {
+  /**
+   * Extract structured page metadata from an HTML document
+   * - <title>, meta description and document language
+   * - OpenGraph (og:*) and Twitter card (twitter:*) tags
+   * - <link rel="canonical"> resolved to an absolute URL
+   * - Every parseable JSON-LD block
+   */
+  static extract(html: string, baseUrl: string): PageMetadata {
+    const $ = cheerio.load(html);
+
+    const openGraph = this.collectPrefixed($, 'og:');
+    const twitter = this.collectPrefixed($, 'twitter:');
+
+    const metadata: PageMetadata = {
+      title: this.clean($('head title').first().text() || $('title').first().text()) || openGraph.title,
+      description: this.clean(this.metaContent($, 'description')) || openGraph.description,
+      language: this.clean($('html').attr('lang') || $('meta[http-equiv="content-language" i]').attr('content')),
+      canonicalUrl: this.toAbsoluteUrl($('link[rel="canonical"]').attr('href'), baseUrl),
+      openGraph,
+      twitter,
+      jsonLd: this.collectJsonLd($)
+    };
+
+    return metadata;
+  }
+
+  private static metaContent($: CheerioAPI, name: string): string | undefined {
+    return $(`meta[name="${name}" i]`).attr('content');
+  }
+
+  /**
+   * Collect meta tags sharing a prefix, keyed without it (og:image -> image).
+   * The first occurrence wins when a property repeats.
+   */
+  private static collectPrefixed($: CheerioAPI, prefix: string): Record<string, string> {
+    const collected: Record<string, string> = {};
+
+    $('meta[property], meta[name]').each((_, el) => {
+      const key = ($(el).attr('property') || $(el).attr('name') || '').toLowerCase();
+      const content = this.clean($(el).attr('content'));
+
+      if (key.startsWith(prefix) && content) {
+        const field = key.substring(prefix.length);
+        if (field && !(field in collected)) {
+          collected[field] = content;
+        }
+      }
+    });
+
+    return collected;
+  }
+
+  private static collectJsonLd($: CheerioAPI): any[] {
+    const blocks: any[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      const raw = $(el).contents().text().trim();
+      if (!raw) return;
+
+      try {
+        const parsed = JSON.parse(raw);
+        blocks.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+      } catch {
+        // Malformed JSON-LD is common in the wild - skip the block
+      }
+    });
+
+    return blocks;
+  }
+
+  private static toAbsoluteUrl(href: string | undefined, baseUrl: string): string | undefined {
+    if (!href) return undefined;
+
+    try {
+      return new URL(href.trim(), baseUrl).toString();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static clean(value: string | undefined): string | undefined {
+    const cleaned = value?.replace(/\s+/g, ' ').trim();
+    return cleaned || undefined;
+  }
+}
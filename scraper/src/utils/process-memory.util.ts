@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+
+export class ProcessMemory {
+  private static readonly PAGE_SIZE = 4096;
+
+  /**
+   * Resident memory of a process and all its descendants (Chrome runs one
+   * process per renderer), read from /proc. Null where /proc is not available.
+   */
+  static async treeRssBytes(rootPid: number): Promise<number | null> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir('/proc');
+    } catch {
+      return null;
+    }
+
+    const children = new Map<number, number[]>();
+    const rss = new Map<number, number>();
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+
+      try {
+        const stat = await fs.readFile(`/proc/${entry}/stat`, 'utf8');
+        // Fields after "(comm)": state ppid ... rss is the 24th field overall
+        const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+        const pid = Number(entry);
+        const ppid = Number(fields[1]);
+
+        rss.set(pid, Number(fields[21]) * this.PAGE_SIZE);
+        children.set(ppid, [...(children.get(ppid) || []), pid]);
+      } catch {
+        // Process exited while we were reading
+      }
+    }
+
+    if (!rss.has(rootPid)) {
+      return null;
+    }
+
+    let total = 0;
+    const pending = [rootPid];
+    while (pending.length) {
+      const pid = pending.pop();
+      total += rss.get(pid) || 0;
+      pending.push(...(children.get(pid) || []));
+    }
+
+    return total;
+  }
+}
@@ -0,0 +1,55 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Decides whether a page fetched over plain HTTP needs a browser to render.
+ * Non-HTML responses (feeds, JSON, plain text) never do.
+ */
+export class RenderDetector {
+  // Below this much visible text a page with scripts is treated as a client-rendered shell
+  private static readonly MIN_TEXT_LENGTH = 200;
+
+  // Mount points of client-side frameworks; only a shell when left empty
+  private static readonly APP_ROOT_SELECTORS = [
+    '#root', '#app', '#__next', '#__nuxt', '#___gatsby', '#svelte', 'app-root', '[ng-app]', '[data-reactroot]'
+  ];
+
+  private static readonly NOSCRIPT_PATTERN = /(enable|requires?|turn on|need)\s+(your\s+)?javascript|javascript\s+(is\s+)?(required|disabled)/i;
+
+  /**
+   * Reason the browser is needed, or null when the HTTP response can be used as is
+   */
+  static needsBrowser(html: string, contentType: string): string | null {
+    if (!/html/i.test(contentType)) {
+      return null;
+    }
+
+    if (!html.trim()) {
+      return 'empty body';
+    }
+
+    const $ = cheerio.load(html);
+
+    const noscript = $('noscript').text();
+    if (this.NOSCRIPT_PATTERN.test(noscript)) {
+      return 'noscript asks for JavaScript';
+    }
+
+    const emptyRoot = this.APP_ROOT_SELECTORS.find(selector => {
+      const root = $(selector).first();
+      return root.length > 0 && !root.text().trim() && root.children().not('script, style, noscript').length === 0;
+    });
+    if (emptyRoot) {
+      return `empty app root ${emptyRoot}`;
+    }
+
+    const scripts = $('script[src], script:not([type]), script[type="module"], script[type="text/javascript"]').length;
+    $('script, style, noscript, template').remove();
+    const textLength = $('body').text().replace(/\s+/g, ' ').trim().length;
+
+    if (scripts > 0 && textLength < this.MIN_TEXT_LENGTH) {
+      return `only ${textLength} characters of text with ${scripts} scripts`;
+    }
+
+    return null;
+  }
+}
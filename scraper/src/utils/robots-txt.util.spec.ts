@@ -0,0 +1,116 @@
+import { RobotsTxt } from './robots-txt.util';
+
+describe('RobotsTxt', () => {
+  const BOT = 'ExampleBot/1.0';
+
+  describe('group selection', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /private',
+      'Crawl-delay: 2',
+      '',
+      'User-agent: examplebot',
+      'User-agent: otherbot',
+      'Disallow: /bots-only',
+      'Crawl-delay: 5',
+      '',
+      'User-agent: bot',
+      'Disallow: /any-bot',
+      'Crawl-delay: 30'
+    ].join('\n'));
+
+    it.each([
+      ['a group naming our token replaces the * group', BOT, 'https://example.com/private', true],
+      ['a group naming our token applies its own rules', BOT, 'https://example.com/bots-only', false],
+      ['consecutive user-agent lines share one group', 'OtherBot/2.0', 'https://example.com/bots-only', false],
+      ['other agents fall back to the * group', 'SomeCrawler/1.0', 'https://example.com/private', false],
+      ['other agents ignore groups naming someone else', 'SomeCrawler/1.0', 'https://example.com/bots-only', true],
+      ['a group named after part of our token is not ours', BOT, 'https://example.com/any-bot', true],
+      ['a group named after part of our token does not replace the * group', 'Bot-Checker/1.0', 'https://example.com/private', false]
+    ])('%s', (_, userAgent, url, allowed) => {
+      expect(robots.isAllowed(url, userAgent).allowed).toBe(allowed);
+    });
+
+    it.each([
+      [BOT, 5],
+      ['SomeCrawler/1.0', 2]
+    ])('reads the Crawl-delay of the group for %s', (userAgent, delay) => {
+      expect(robots.getCrawlDelay(userAgent)).toBe(delay);
+    });
+  });
+
+  describe('rule precedence', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /shop',
+      'Allow: /shop/public',
+      'Disallow: /shop/public/drafts',
+      'Allow: /page',
+      'Disallow: /page'
+    ].join('\n'));
+
+    it.each([
+      ['/shop/cart', false, 'Disallow: /shop'],
+      ['/shop/public/item', true, 'Allow: /shop/public'],
+      ['/shop/public/drafts/1', false, 'Disallow: /shop/public/drafts'],
+      ['/page', true, 'Allow: /page'],
+      ['/other', true, undefined]
+    ])('%s: the longest match wins, allow wins a tie', (path, allowed, rule) => {
+      expect(robots.isAllowed(`https://example.com${path}`, BOT)).toEqual({ allowed, rule });
+    });
+  });
+
+  describe('wildcards', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /*.pdf$',
+      'Disallow: /search*q=',
+      'Disallow: /exact$'
+    ].join('\n'));
+
+    it.each([
+      ['/files/report.pdf', false],
+      ['/files/report.pdf?download=1', true],
+      ['/files/report.pdfx', true],
+      ['/search?q=term', false],
+      ['/search/advanced?lang=en&q=term', false],
+      ['/search', true],
+      ['/exact', false],
+      ['/exact/more', true],
+      ['/robots.txt', true]
+    ])('%s allowed: %s', (path, allowed) => {
+      expect(robots.isAllowed(`https://example.com${path}`, BOT).allowed).toBe(allowed);
+    });
+  });
+
+  describe('parsing', () => {
+    it('ignores comments, unknown directives and rules before any group', () => {
+      const robots = RobotsTxt.parse([
+        'Disallow: /orphan',
+        'Sitemap: https://example.com/sitemap.xml',
+        'User-agent: * # everyone',
+        'Disallow: /tmp # scratch space',
+        'Disallow:'
+      ].join('\r\n'));
+
+      expect(robots.isAllowed('https://example.com/orphan', BOT).allowed).toBe(true);
+      expect(robots.isAllowed('https://example.com/tmp/file', BOT)).toEqual({ allowed: false, rule: 'Disallow: /tmp' });
+    });
+
+    it.each([
+      ['1.5', 1.5],
+      ['0', 0],
+      ['-1', undefined],
+      ['soon', undefined]
+    ])('reads Crawl-delay %s as %s', (value, delay) => {
+      const robots = RobotsTxt.parse(`User-agent: *\nCrawl-delay: ${value}`);
+
+      expect(robots.getCrawlDelay(BOT)).toBe(delay);
+    });
+
+    it('allows everything without groups', () => {
+      expect(RobotsTxt.allowAll().isAllowed('https://example.com/anything', BOT)).toEqual({ allowed: true });
+      expect(RobotsTxt.allowAll().getCrawlDelay(BOT)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  rule?: string;
+}
+
+export class RobotsTxt {
+  // RFC 9309 asks parsers to handle at least 500 KiB
+  private static readonly MAX_SIZE = 500 * 1024;
+
+  constructor(private readonly groups: RobotsGroup[]) {}
+
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([]);
+  }
+
+  /**
+   * Parse robots.txt into user-agent groups
+   * - Consecutive user-agent lines share one group
+   * - Unknown directives (sitemap, host...) are ignored
+   */
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of content.slice(0, this.MAX_SIZE).split(/\r?\n|\r/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        continue;
+      }
+
+      collectingAgents = false;
+      if (!current) continue;
+
+      if ((key === 'allow' || key === 'disallow') && value) {
+        current.rules.push({ allow: key === 'allow', pattern: value });
+      } else if (key === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+      }
+    }
+
+    return new RobotsTxt(groups);
+  }
+
+  /**
+   * Decide whether a URL may be fetched: the longest matching rule wins,
+   * and allow wins a tie (RFC 9309)
+   */
+  isAllowed(url: string, userAgent: string): RobotsVerdict {
+    let path: string;
+    try {
+      const urlObj = new URL(url);
+      path = `${urlObj.pathname}${urlObj.search}`;
+    } catch {
+      return { allowed: true };
+    }
+
+    if (path === '/robots.txt') {
+      return { allowed: true };
+    }
+
+    let best: RobotsRule | null = null;
+
+    for (const group of this.groupsFor(userAgent)) {
+      for (const rule of group.rules) {
+        if (!this.matches(path, rule.pattern)) continue;
+
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+        ) {
+          best = rule;
+        }
+      }
+    }
+
+    if (!best) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: best.allow,
+      rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.pattern}`
+    };
+  }
+
+  getCrawlDelay(userAgent: string): number | undefined {
+    const delays = this.groupsFor(userAgent)
+      .map(group => group.crawlDelay)
+      .filter(delay => delay !== undefined);
+
+    return delays.length ? Math.max(...delays) : undefined;
+  }
+
+  /**
+   * Groups naming our product token take precedence; the `*` groups apply otherwise.
+   * Names are matched whole and case-insensitively, so `User-agent: bot` is not ours.
+   */
+  private groupsFor(userAgent: string): RobotsGroup[] {
+    const token = userAgent.split('/')[0].trim().toLowerCase();
+
+    const specific = this.groups.filter(group =>
+      group.userAgents.some(agent => agent && agent === token)
+    );
+    if (specific.length) {
+      return specific;
+    }
+
+    return this.groups.filter(group => group.userAgents.includes('*'));
+  }
+
+  private matches(path: string, pattern: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+}